@@ -0,0 +1,80 @@
+// One-off job: encrypt every OpenRouter key still stored in plaintext and clear the
+// plaintext column. Run it before applying 0019_api_key_column_privileges.sql:
+//   NEXT_PUBLIC_SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... API_KEY_ENCRYPTION_KEY=... \
+//     node scripts/encrypt-api-keys.mjs
+// Safe to run again; rows without a plaintext key are left alone, and rows that failed
+// are reported and tried again on the next run.
+import { createClient } from '@supabase/supabase-js';
+import { encryptApiKeyWith, maskApiKey, parseEncryptionKey } from '../src/lib/apiKeyFormat.mjs';
+
+const BATCH_SIZE = 100;
+
+function requireEnv(name) {
+  const value = process.env[name];
+  if (!value) {
+    console.error(`${name} is not set`);
+    process.exit(1);
+  }
+  return value;
+}
+
+const supabase = createClient(requireEnv('NEXT_PUBLIC_SUPABASE_URL'), requireEnv('SUPABASE_SERVICE_ROLE_KEY'), {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
+
+let encryptionKey;
+try {
+  encryptionKey = parseEncryptionKey(process.env.API_KEY_ENCRYPTION_KEY);
+} catch (error) {
+  console.error(error.message);
+  process.exit(1);
+}
+
+let encrypted = 0;
+const failedUsers = [];
+
+// Page by user_id, so rows that fail are skipped rather than read again
+let lastUserId = null;
+for (;;) {
+  let query = supabase
+    .from('user')
+    .select('user_id, openrouter_api_key')
+    .not('openrouter_api_key', 'is', null)
+    .order('user_id')
+    .limit(BATCH_SIZE);
+  if (lastUserId) query = query.gt('user_id', lastUserId);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error reading plaintext keys:', error);
+    process.exit(1);
+  }
+  if (data.length === 0) break;
+
+  for (const row of data) {
+    const { error: updateError } = await supabase
+      .from('user')
+      .update({
+        openrouter_api_key: null,
+        openrouter_api_key_encrypted: encryptApiKeyWith(encryptionKey, row.openrouter_api_key),
+        openrouter_api_key_preview: maskApiKey(row.openrouter_api_key),
+      })
+      .eq('user_id', row.user_id);
+
+    if (updateError) {
+      console.error(`Error encrypting the key of user ${row.user_id}:`, updateError);
+      failedUsers.push(row.user_id);
+    } else {
+      encrypted++;
+    }
+  }
+
+  lastUserId = data[data.length - 1].user_id;
+}
+
+console.log(`Encrypted ${encrypted} key(s)`);
+if (failedUsers.length > 0) {
+  console.error(`${failedUsers.length} key(s) are still in plaintext, for users: ${failedUsers.join(', ')}`);
+  console.error('Run the script again before applying 0019_api_key_column_privileges.sql');
+}
+process.exit(failedUsers.length > 0 ? 1 : 0);
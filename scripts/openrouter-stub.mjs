@@ -0,0 +1,78 @@
+// Local stand-in for the OpenRouter chat completions endpoint.
+// Run `node scripts/openrouter-stub.mjs` and start the app with
+// OPENROUTER_API_URL=http://localhost:8787/api/v1 to exercise the proxy route.
+import { createServer } from 'node:http';
+
+const port = Number(process.env.PORT || 8787);
+
+const server = createServer((req, res) => {
+  // Key check used when saving or testing a key; any key starting with "bad" is rejected
+  if (req.method === 'GET' && req.url === '/api/v1/key') {
+    const apiKey = req.headers.authorization?.replace(/^Bearer /, '') ?? '';
+    if (!apiKey || apiKey.startsWith('bad')) {
+      res.writeHead(401).end('Invalid API key');
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ data: { label: 'stand-in key', usage: 0, limit: null } }));
+    return;
+  }
+
+  if (req.method !== 'POST' || req.url !== '/api/v1/chat/completions') {
+    res.writeHead(404).end('Not found');
+    return;
+  }
+
+  if (!req.headers.authorization?.startsWith('Bearer ')) {
+    res.writeHead(401).end('Missing API key');
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    let request;
+    try {
+      request = JSON.parse(body);
+    } catch {
+      res.writeHead(400).end('Invalid JSON');
+      return;
+    }
+
+    const lastMessage = request.messages?.[request.messages.length - 1];
+    const reply = `Echo from ${request.model}: ${lastMessage?.content ?? ''}`;
+
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    res.write(': OPENROUTER PROCESSING\n\n');
+
+    const words = reply.split(/(?<= )/);
+    words.forEach((word) => {
+      const chunk = {
+        id: 'stub',
+        model: request.model,
+        choices: [{ index: 0, delta: { content: word }, finish_reason: null }],
+      };
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    });
+
+    // Roughly 4 characters per token, the same estimate the app uses for context trimming
+    const promptTokens = (request.messages ?? []).reduce((total, message) => {
+      const content = typeof message.content === 'string' ? message.content : JSON.stringify(message.content ?? '');
+      return total + Math.ceil(content.length / 4) + 4;
+    }, 0);
+    const completionTokens = Math.ceil(reply.length / 4);
+
+    res.write(`data: ${JSON.stringify({
+      id: 'stub',
+      model: request.model,
+      choices: [{ index: 0, delta: {}, finish_reason: 'stop' }],
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens, cost: 0 },
+    })}\n\n`);
+    res.write('data: [DONE]\n\n');
+    res.end();
+  });
+});
+
+server.listen(port, () => {
+  console.log(`OpenRouter stand-in listening on http://localhost:${port}/api/v1`);
+});
@@ -0,0 +1,80 @@
+import {
+  authenticateRequest,
+  getOpenRouterApiKey,
+  getOpenRouterApiKeyPreview,
+  removeOpenRouterApiKey,
+  saveOpenRouterApiKey,
+} from '@/lib/supabaseServer';
+import { validateOpenRouterApiKey } from '@/lib/openrouterServer';
+
+// Read an optional { apiKey } body, tolerating an empty one
+async function readApiKey(request: Request): Promise<string> {
+  const body = await request.json().catch(() => null);
+  return typeof body?.apiKey === 'string' ? body.apiKey.trim() : '';
+}
+
+// Report whether the caller has a key, with a masked preview
+export async function GET(request: Request): Promise<Response> {
+  const auth = await authenticateRequest(request);
+  if (!auth) {
+    return new Response('Not authenticated', { status: 401 });
+  }
+
+  const preview = await getOpenRouterApiKeyPreview(auth);
+  return Response.json({ hasKey: !!preview, preview });
+}
+
+// Validate a new key with the provider, then store it encrypted
+export async function PUT(request: Request): Promise<Response> {
+  const auth = await authenticateRequest(request);
+  if (!auth) {
+    return new Response('Not authenticated', { status: 401 });
+  }
+
+  const apiKey = await readApiKey(request);
+  if (!apiKey) {
+    return Response.json({ error: 'API key is required' }, { status: 400 });
+  }
+
+  const validation = await validateOpenRouterApiKey(apiKey);
+  if (!validation.valid) {
+    return Response.json({ error: validation.error }, { status: 422 });
+  }
+
+  const saved = await saveOpenRouterApiKey(auth, apiKey);
+  if (!saved) {
+    return Response.json({ error: 'Failed to save API key' }, { status: 500 });
+  }
+
+  const preview = await getOpenRouterApiKeyPreview(auth);
+  return Response.json({ hasKey: true, preview });
+}
+
+// Test a key against the provider: the one in the body, or else the stored one
+export async function POST(request: Request): Promise<Response> {
+  const auth = await authenticateRequest(request);
+  if (!auth) {
+    return new Response('Not authenticated', { status: 401 });
+  }
+
+  const apiKey = (await readApiKey(request)) || (await getOpenRouterApiKey(auth));
+  if (!apiKey) {
+    return Response.json({ valid: false, error: 'OpenRouter API key is not set for this user' });
+  }
+
+  return Response.json(await validateOpenRouterApiKey(apiKey));
+}
+
+export async function DELETE(request: Request): Promise<Response> {
+  const auth = await authenticateRequest(request);
+  if (!auth) {
+    return new Response('Not authenticated', { status: 401 });
+  }
+
+  const removed = await removeOpenRouterApiKey(auth);
+  if (!removed) {
+    return Response.json({ error: 'Failed to remove API key' }, { status: 500 });
+  }
+
+  return Response.json({ hasKey: false, preview: null });
+}
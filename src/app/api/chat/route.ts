@@ -0,0 +1,48 @@
+import { authenticateRequest, getModelProviderConfig } from '@/lib/supabaseServer';
+import { ChatCompletionRequest, getProvider } from '@/lib/providers';
+
+// Stream a chat completion from whichever provider serves the requested model
+export async function POST(request: Request): Promise<Response> {
+  const auth = await authenticateRequest(request);
+  if (!auth) {
+    return new Response('Not authenticated', { status: 401 });
+  }
+
+  let requestBody: ChatCompletionRequest;
+  try {
+    requestBody = await request.json();
+  } catch (error) {
+    return new Response('Request body must be JSON', { status: 400 });
+  }
+
+  if (!requestBody?.model || !Array.isArray(requestBody.messages)) {
+    return new Response('Request must include a model and messages', { status: 400 });
+  }
+
+  try {
+    const { provider: providerId, baseUrl } = await getModelProviderConfig(auth, requestBody.model);
+    const provider = getProvider(providerId);
+
+    const upstream = await provider.streamChatCompletion(requestBody, {
+      auth,
+      baseUrl,
+      signal: request.signal, // Stop the upstream request when the browser aborts
+    });
+
+    if (!upstream.ok || !upstream.body) {
+      const error = await upstream.text();
+      return new Response(error || 'Response body is null', { status: upstream.ok ? 502 : upstream.status });
+    }
+
+    return new Response(upstream.body, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Error proxying chat completion:', error);
+    return new Response('Failed to reach the model provider', { status: 502 });
+  }
+}
@@ -0,0 +1,58 @@
+import { after } from 'next/server';
+import { authenticateRequest, claimGeneration } from '@/lib/supabaseServer';
+import { ChatCompletionRequest } from '@/lib/providers';
+import { getToolsByName } from '@/lib/tools';
+import { runGenerationJob } from '@/lib/generationJob';
+
+// The job outlives the request, so give it as long as the platform allows. The job
+// stops itself at GENERATION_MAX_MS, a little earlier, so it can still save what it has;
+// keep the two in step when changing either.
+export const maxDuration = 300;
+
+interface GenerationRequestBody {
+  messageId: string;
+  request: ChatCompletionRequest;
+  tools?: string[];
+  // The browser's IANA time zone, for tools that tell the time
+  timeZone?: string;
+}
+
+function isTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// Start writing an answer into an empty assistant message. Responds as soon as the
+// message is claimed; the browser follows the row while the job streams into it.
+export async function POST(request: Request): Promise<Response> {
+  const auth = await authenticateRequest(request);
+  if (!auth) {
+    return new Response('Not authenticated', { status: 401 });
+  }
+
+  let body: GenerationRequestBody;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return new Response('Request body must be JSON', { status: 400 });
+  }
+
+  if (typeof body?.messageId !== 'string' || !body.request?.model || !Array.isArray(body.request.messages)) {
+    return new Response('Request must include a message ID, a model and messages', { status: 400 });
+  }
+
+  if (!await claimGeneration(auth, body.messageId)) {
+    return new Response('Message not found or already generated', { status: 409 });
+  }
+
+  const tools = getToolsByName(Array.isArray(body.tools) ? body.tools : []);
+  const timeZone = isTimeZone(body.timeZone) ? body.timeZone : undefined;
+  after(() => runGenerationJob(auth, body.messageId, body.request, tools, timeZone));
+
+  return Response.json({ messageId: body.messageId, status: 'running' }, { status: 202 });
+}
@@ -0,0 +1,32 @@
+import { createServiceSupabaseClient } from '@/lib/supabaseServer';
+import { CatalogSource, syncModelCatalog } from '@/lib/modelCatalog';
+
+// Sync the provider's model catalog into avail_models. Meant for a cron job:
+//   curl -X POST -H "Authorization: Bearer $MODEL_SYNC_SECRET" <site>/api/models/sync
+// Add ?source=fixture (or set MODEL_CATALOG_SOURCE=fixture) to use the bundled
+// offline catalog instead of calling the provider.
+export async function POST(request: Request): Promise<Response> {
+  const secret = process.env.MODEL_SYNC_SECRET;
+  if (!secret || request.headers.get('Authorization') !== `Bearer ${secret}`) {
+    return new Response('Not authorized', { status: 401 });
+  }
+
+  const supabase = createServiceSupabaseClient();
+  if (!supabase) {
+    return new Response('SUPABASE_SERVICE_ROLE_KEY is not set', { status: 500 });
+  }
+
+  const requestedSource = new URL(request.url).searchParams.get('source') || process.env.MODEL_CATALOG_SOURCE;
+  const source: CatalogSource = requestedSource === 'fixture' ? 'fixture' : 'provider';
+
+  try {
+    const result = await syncModelCatalog(supabase, source);
+    return Response.json(result);
+  } catch (error) {
+    console.error('Error syncing model catalog:', error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : 'Failed to sync model catalog' },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import { useTheme } from './ThemeContext';
+import {
+  ApiKeyStatus,
+  getApiKeyStatus,
+  saveApiKey,
+  testApiKey,
+  removeApiKey,
+} from '@/lib/apiKeys';
+
+const ApiKeySettings: React.FC = () => {
+  const { theme } = useTheme();
+  const [status, setStatus] = useState<ApiKeyStatus | null>(null);
+  const [newKey, setNewKey] = useState<string>('');
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [notice, setNotice] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // Load the current key status when the section opens
+  useEffect(() => {
+    const loadStatus = async () => {
+      setStatus(await getApiKeyStatus());
+    };
+
+    loadStatus();
+  }, []);
+
+  const handleSave = async () => {
+    if (!newKey.trim() || isBusy) return;
+
+    setIsBusy(true);
+    setNotice(null);
+    const result = await saveApiKey(newKey.trim());
+    if (result.status) {
+      setStatus(result.status);
+      setNewKey('');
+      setNotice({ type: 'success', text: 'API key verified and saved' });
+    } else {
+      setNotice({ type: 'error', text: result.error || 'Failed to save API key' });
+    }
+    setIsBusy(false);
+  };
+
+  const handleTest = async () => {
+    if (isBusy) return;
+
+    setIsBusy(true);
+    setNotice(null);
+    // Test the key being typed, or the stored one if the field is empty
+    const result = await testApiKey(newKey.trim() || undefined);
+    setNotice(result.valid
+      ? { type: 'success', text: result.label ? `Key works (${result.label})` : 'Key works' }
+      : { type: 'error', text: result.error || 'Key did not work' });
+    setIsBusy(false);
+  };
+
+  const handleRemove = async () => {
+    if (isBusy || !window.confirm('Remove your OpenRouter API key? Chats will stop working until you add a new one.')) {
+      return;
+    }
+
+    setIsBusy(true);
+    setNotice(null);
+    if (await removeApiKey()) {
+      setStatus({ hasKey: false, preview: null });
+      setNotice({ type: 'success', text: 'API key removed' });
+    } else {
+      setNotice({ type: 'error', text: 'Failed to remove API key' });
+    }
+    setIsBusy(false);
+  };
+
+  const buttonClass = `px-2 py-1 text-xs rounded-md transition-colors disabled:opacity-50 ${
+    theme === 'dark' ? 'bg-zinc-700 hover:bg-zinc-600 text-gray-200' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+  }`;
+
+  return (
+    <div className={`p-3 ${theme === 'dark' ? 'border-b border-zinc-700' : 'border-b border-zinc-200'}`}>
+      <div className={`text-xs font-medium mb-1 ${theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}>
+        OpenRouter API key
+      </div>
+      <div className="text-xs text-gray-400 mb-2 font-mono">
+        {status === null ? 'Loading...' : status.preview || 'Not set'}
+      </div>
+      <input
+        type="password"
+        value={newKey}
+        onChange={(e) => setNewKey(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            handleSave();
+          }
+        }}
+        placeholder={status?.hasKey ? 'Paste a new key to rotate' : 'Paste your key'}
+        autoComplete="off"
+        className={`w-full px-2 py-1 mb-2 text-xs rounded-md focus:outline-none focus:ring-1 focus:ring-purple-500 ${
+          theme === 'dark' ? 'bg-zinc-900 border border-zinc-700 text-white' : 'bg-white border border-zinc-300 text-gray-800'
+        }`}
+      />
+      <div className="flex gap-2">
+        <button onClick={handleSave} disabled={isBusy || !newKey.trim()} className={buttonClass}>
+          Save
+        </button>
+        <button onClick={handleTest} disabled={isBusy || (!newKey.trim() && !status?.hasKey)} className={buttonClass}>
+          Test
+        </button>
+        {status?.hasKey && (
+          <button onClick={handleRemove} disabled={isBusy} className={`${buttonClass} text-red-400`}>
+            Remove
+          </button>
+        )}
+      </div>
+      {notice && (
+        <div className={`text-xs mt-2 ${notice.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+          {notice.text}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApiKeySettings;
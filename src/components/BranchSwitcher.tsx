@@ -0,0 +1,39 @@
+import React from 'react';
+import { MessageBranch } from '@/lib/messageTree';
+
+interface BranchSwitcherProps {
+  branch?: MessageBranch;
+  disabled?: boolean;
+  onSwitch: (siblingId: string) => void;
+}
+
+const BranchSwitcher: React.FC<BranchSwitcherProps> = ({ branch, disabled = false, onSwitch }) => {
+  // Nothing to switch between on a turn that was never retried or edited
+  if (!branch || branch.siblingIds.length < 2) return null;
+
+  const { index, siblingIds } = branch;
+
+  return (
+    <div className="flex items-center gap-1 text-xs text-zinc-500 mt-1 px-1 select-none">
+      <button
+        onClick={() => onSwitch(siblingIds[index - 1])}
+        disabled={disabled || index === 0}
+        className="px-1 hover:text-white disabled:opacity-40 disabled:hover:text-zinc-500 transition-colors"
+        aria-label="Previous branch"
+      >
+        &lt;
+      </button>
+      <span>{index + 1}/{siblingIds.length}</span>
+      <button
+        onClick={() => onSwitch(siblingIds[index + 1])}
+        disabled={disabled || index === siblingIds.length - 1}
+        className="px-1 hover:text-white disabled:opacity-40 disabled:hover:text-zinc-500 transition-colors"
+        aria-label="Next branch"
+      >
+        &gt;
+      </button>
+    </div>
+  );
+};
+
+export default BranchSwitcher;
@@ -4,8 +4,8 @@ import {
   ChatMessage, 
   getAvailableModels, 
   OpenRouterModel, 
-  getChatCompletionStream,
   WebSearchCitation, 
+  streamGeneration,
 } from '@/lib/openrouter';
 import { 
   createChat, 
@@ -16,39 +16,94 @@ import {
   updateChatTitle, 
   supabase,
   saveStreamingMessage,
-  updateStreamingMessage,
+  createMessageWriter,
   deleteChat,
   deleteMessage,
   getUserDisplayName,
+  selectFanoutMessage,
+  switchChatBranch,
+  getChatsForExport,
+  ChatExportData,
+  getChatSystemPrompt,
+  updateChatSystemPrompt,
+  getDefaultSystemPrompt,
+  updateDefaultSystemPrompt,
+  getChatGenerationParams,
+  updateChatGenerationParams,
+  getDefaultGenerationParams,
+  updateDefaultGenerationParams,
+  getChatWebSearch,
+  updateChatWebSearch,
+  uploadAttachment,
+  subscribeToGeneration,
+  abortGeneration,
+  isGenerationStale,
+  subscribeToChatMessages,
+  subscribeToUserChats,
+  ChatMessageDB,
+  RealtimeChange,
 } from '@/lib/supabase';
+import { MessageBranch } from '@/lib/messageTree';
+import { MessageUsage, buildMessageUsage, formatMessageUsage } from '@/lib/usage';
+import {
+  ModelFilters,
+  DEFAULT_MODEL_FILTERS,
+  filterModels,
+  formatContextLength,
+  formatPricePerMillion,
+  getModalityBadges,
+} from '@/lib/modelFilters';
+import {
+  ContextStrategy,
+  CONTEXT_STRATEGIES,
+  DEFAULT_KEEP_TURNS,
+  prepareConversation,
+  formatContextTrim,
+} from '@/lib/contextWindow';
+import { GenerationParams, hasGenerationParams, formatGenerationParams } from '@/lib/generationParams';
+import { ExportFormat, buildExport, downloadExport } from '@/lib/chatExport';
+import { WebSearchOptions, ChatWebSearchSettings, formatWebSearchOptions } from '@/lib/webSearch';
+import {
+  MessageAttachment,
+  PendingAttachment,
+  IMAGE_MIME_TYPES,
+  MAX_ATTACHMENTS,
+  validateImageFile,
+  supportsImageInput,
+} from '@/lib/attachments';
+import { DOCUMENT_ACCEPT, isDocumentFile, extractDocument } from '@/lib/documents';
+import { CHAT_TOOLS, ToolName } from '@/lib/tools';
+import { mergeCitations, linkCitationMarkers } from '@/lib/citations';
+import { splitCitations } from '@/lib/chatExport';
+import { formatStoppedContent } from '@/lib/generations';
+import {
+  SlashCommandContext,
+  SlashCommandResult,
+  SlashCommandSuggestion,
+  runSlashCommand,
+  getSlashCommandSuggestions,
+} from '@/lib/slashCommands';
+import {
+  ImportedConversation,
+  ImportProgress,
+  ImportReport,
+  ParsedImport,
+  parseImportFile,
+  importConversations,
+} from '@/lib/importers';
 import Sidebar from './Sidebar';
-
-// OpenRouter import types
-interface OpenRouterExport {
-  version: string;
-  characters: {
-    [key: string]: {
-      model: string;
-      modelInfo: any;
-      id: string;
-      updatedAt: string;
-      description: string;
-    }
-  };
-  messages: {
-    [key: string]: {
-      characterId: string;
-      content: string;
-      id: string;
-      updatedAt: string;
-      isGenerating?: boolean;
-      metadata?: any;
-      citations?: any[];
-      files?: any[];
-      attachments?: any[];
-    }
-  }
-}
+import FanoutGroup from './FanoutGroup';
+import BranchSwitcher from './BranchSwitcher';
+import SystemPromptBar from './SystemPromptBar';
+import GenerationSettings from './GenerationSettings';
+import WebSearchSettings from './WebSearchSettings';
+import ImportPreview from './ImportPreview';
+import SlashCommandMenu from './SlashCommandMenu';
+import MessageAttachments from './MessageAttachments';
+import DocumentChip from './DocumentChip';
+import ToolCallCard from './ToolCallCard';
+import CitationLink from './CitationLink';
+import CitationList from './CitationList';
 
 // Sample suggestion questions
 const SUGGESTIONS = [
@@ -58,6 +113,49 @@ const SUGGESTIONS = [
   "Why is JavaScript the worst language?"
 ];
 
+// Changes from other tabs and devices arrive in bursts; apply each burst once
+const REMOTE_SYNC_DELAY_MS = 300;
+
+// Keep only the answer that continues the thread from each fan-out group
+const getThreadMessages = (chatMessages: ChatMessage[]): ChatMessage[] => {
+  return chatMessages.filter(message => {
+    if (!message.fanoutGroup) return true;
+    const group = chatMessages.filter(m => m.fanoutGroup === message.fanoutGroup);
+    const selected = group.find(m => m.fanoutSelected) || group[0];
+    return selected === message;
+  });
+};
+
+// Convert a DB message to the format we need, preserving the original messageid.
+// Older web-search answers carry their sources as a text block instead of the citations column.
+// A job that died mid-answer leaves its row running; show it as interrupted.
+const toChatMessage = (msg: ChatMessageDB): ChatMessage => ({
+  role: msg.source === 'user' ? 'user' : 'assistant' as 'user' | 'assistant',
+  ...(msg.citations && msg.citations.length > 0
+    ? { content: msg.message, citations: msg.citations }
+    : msg.source !== 'user' ? splitCitations(msg.message) : { content: msg.message }),
+  ...(isGenerationStale(msg)
+    ? { content: formatStoppedContent(msg.message, 'failed'), generationStatus: 'failed' as const }
+    : { generationStatus: msg.generation_status || undefined }),
+  model: msg.source !== 'user' ? msg.source : undefined,
+  messageid: msg.messageid, // Keep consistent with the property name used in the delete button
+  fanoutGroup: msg.fanout_group || undefined,
+  fanoutSelected: msg.fanout_selected || undefined,
+  parentId: msg.parent_id || undefined,
+  usage: msg.prompt_tokens !== null && msg.prompt_tokens !== undefined
+    ? {
+        promptTokens: msg.prompt_tokens,
+        completionTokens: msg.completion_tokens || 0,
+        cost: msg.cost !== null && msg.cost !== undefined ? Number(msg.cost) : null
+      }
+    : undefined,
+  generationParams: msg.generation_params || undefined,
+  webSearch: msg.web_search_options || undefined,
+  attachments: msg.attachments || undefined,
+  toolResults: msg.tool_calls || undefined,
+  contextTrim: msg.context_trim || undefined
+});
+
 interface ChatComponentProps {
   userId: string | null;
   user: any;
@@ -75,19 +173,64 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
   const [availableModels, setAvailableModels] = useState<OpenRouterModel[]>([]);
   const [isModelDropdownOpen, setIsModelDropdownOpen] = useState<boolean>(false);
   const [modelSearchQuery, setModelSearchQuery] = useState<string>('');
+  const [modelFilters, setModelFilters] = useState<ModelFilters>(DEFAULT_MODEL_FILTERS);
+  const [contextStrategy, setContextStrategy] = useState<ContextStrategy>('drop-oldest');
+  // How many turns "Keep last turns" sends
+  const [contextKeepTurns, setContextKeepTurns] = useState<number>(DEFAULT_KEEP_TURNS);
+  // Let models call the built-in tools while answering
+  const [toolsEnabled, setToolsEnabled] = useState<boolean>(false);
+  const [chatSystemPrompt, setChatSystemPrompt] = useState<string | null>(null);
+  const [defaultSystemPrompt, setDefaultSystemPrompt] = useState<string | null>(null);
+  const [chatGenerationParams, setChatGenerationParams] = useState<GenerationParams | null>(null);
+  const [defaultGenerationParams, setDefaultGenerationParams] = useState<GenerationParams | null>(null);
+  const [chatWebSearch, setChatWebSearch] = useState<ChatWebSearchSettings | null>(null);
   const [isMobileSidebarOpen, setIsMobileSidebarOpen] = useState<boolean>(false);
   const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const [abortController, setAbortController] = useState<AbortController | null>(null);
+  // Models to stream the same prompt to in parallel (empty means single-model mode)
+  const [fanoutModels, setFanoutModels] = useState<string[]>([]);
+  const [fanoutControllers, setFanoutControllers] = useState<Record<string, AbortController>>({});
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
   const [editingContent, setEditingContent] = useState<string>('');
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [pendingImport, setPendingImport] = useState<ParsedImport | null>(null);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [importController, setImportController] = useState<AbortController | null>(null);
+  // Message opened from search, scrolled to and outlined once it is on screen
+  const [highlightMessageId, setHighlightMessageId] = useState<string | null>(null);
+  // Outcome of the last slash command or attachment problem, shown under the composer
+  const [composerNotice, setComposerNotice] = useState<SlashCommandResult | null>(null);
+  const [selectedSuggestion, setSelectedSuggestion] = useState<number>(0);
+  // Input for which the user closed the autocomplete with Escape
+  const [dismissedSuggestionsFor, setDismissedSuggestionsFor] = useState<string | null>(null);
+  // Images waiting to go out with the next message
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  // Documents are read into text as soon as they are attached
+  const [pendingDocuments, setPendingDocuments] = useState<MessageAttachment[]>([]);
+  const [extractingDocuments, setExtractingDocuments] = useState<number>(0);
+  const [isDraggingFiles, setIsDraggingFiles] = useState<boolean>(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const editTextareaRef = useRef<HTMLTextAreaElement>(null);
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
   // Add a ref to track scroll position
   const scrollPositionRef = useRef<number>(0);
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  // Server jobs this tab re-attached to, by message ID, with the function that stops following each
+  const generationFollowersRef = useRef<Record<string, () => void>>({});
+  // Message changes from other tabs and devices, held until this tab is idle
+  const remoteMessageChangesRef = useRef<RealtimeChange<ChatMessageDB>[]>([]);
+  // Set when the chat's channel (re)joined, so changes made before then are read again
+  const remoteCatchUpRef = useRef(false);
+  const remoteSyncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const chatListSyncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Sending, streaming or editing here; remote message changes must not reshuffle the thread meanwhile
+  const isBusy = isSubmitting || !!abortController || Object.keys(fanoutControllers).length > 0 || !!editingMessageId;
+  // Current state for the realtime handlers, which outlive the render that subscribed them
+  const syncStateRef = useRef({ activeChatId, messages, isBusy, userChats });
+  syncStateRef.current = { activeChatId, messages, isBusy, userChats };
 
   // Get user display name for messages
   const [userDisplayNameState, setUserDisplayNameState] = useState<string | null>(null);
@@ -124,6 +267,55 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
     loadUserDisplayName();
   }, [userId]);
 
+  // Load the user's default system prompt and generation settings
+  useEffect(() => {
+    const loadUserDefaults = async () => {
+      if (userId) {
+        setDefaultSystemPrompt(await getDefaultSystemPrompt());
+        setDefaultGenerationParams(await getDefaultGenerationParams());
+      }
+    };
+
+    loadUserDefaults();
+  }, [userId]);
+
+  // Restore the preferred context strategy
+  useEffect(() => {
+    const storedStrategy = localStorage.getItem('contextStrategy') as ContextStrategy | null;
+    if (storedStrategy && CONTEXT_STRATEGIES.some(strategy => strategy.id === storedStrategy)) {
+      setContextStrategy(storedStrategy);
+    }
+  }, []);
+
+  const handleContextStrategyChange = (strategy: ContextStrategy) => {
+    setContextStrategy(strategy);
+    localStorage.setItem('contextStrategy', strategy);
+  };
+
+  // Restore how many turns to keep
+  useEffect(() => {
+    const storedTurns = Number(localStorage.getItem('contextKeepTurns'));
+    if (Number.isInteger(storedTurns) && storedTurns > 0) {
+      setContextKeepTurns(storedTurns);
+    }
+  }, []);
+
+  const handleContextKeepTurnsChange = (turns: number) => {
+    if (!Number.isInteger(turns) || turns < 1) return;
+    setContextKeepTurns(turns);
+    localStorage.setItem('contextKeepTurns', String(turns));
+  };
+
+  // Restore whether tools are on
+  useEffect(() => {
+    setToolsEnabled(localStorage.getItem('toolsEnabled') === 'true');
+  }, []);
+
+  const handleToolsEnabledChange = (enabled: boolean) => {
+    setToolsEnabled(enabled);
+    localStorage.setItem('toolsEnabled', String(enabled));
+  };
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -175,10 +367,269 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
   // Load messages for active chat
   useEffect(() => {
     if (activeChatId && !isSubmitting) { // Skip loading during first message submission
-      loadChatMessages(activeChatId);
+      loadChatMessages(activeChatId, !highlightMessageId);
     }
   }, [activeChatId, isSubmitting]);
 
+  // Scroll to a message opened from search once it has rendered
+  useEffect(() => {
+    if (!highlightMessageId) return;
+
+    const element = document.querySelector(`[data-message-id="${highlightMessageId}"]`);
+    if (!element) return;
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setHighlightMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [messages, highlightMessageId]);
+
+  // Re-attach to answers a server job is still writing, e.g. after a reload or from another device
+  useEffect(() => {
+    messages.forEach(message => {
+      const messageId = message.messageid;
+      if (message.generationStatus !== 'running' || !messageId || generationFollowersRef.current[messageId]) return;
+
+      setIsLoading(true);
+      generationFollowersRef.current[messageId] = subscribeToGeneration(messageId, (progress) => {
+        setMessages((prevMessages) => prevMessages.map(m =>
+          m.messageid === messageId
+            ? {
+                ...m,
+                // The job adds its note when it next saves; show it straight away
+                content: progress.status === 'aborted' ? formatStoppedContent(progress.content, 'aborted') : progress.content,
+                citations: progress.citations.length > 0 ? progress.citations : undefined,
+                toolResults: progress.toolResults.length > 0 ? progress.toolResults : undefined,
+                usage: progress.usage || undefined,
+                generationStatus: progress.status,
+              }
+            : m
+        ));
+
+        if (progress.status !== 'running') {
+          generationFollowersRef.current[messageId]?.();
+          delete generationFollowersRef.current[messageId];
+          if (Object.keys(generationFollowersRef.current).length === 0) {
+            setIsLoading(false);
+          }
+        }
+      });
+    });
+  }, [messages]);
+
+  // Stop following when leaving the chat; the jobs carry on without us
+  useEffect(() => {
+    return () => {
+      const followers = Object.values(generationFollowersRef.current);
+      followers.forEach(stopFollowing => stopFollowing());
+      generationFollowersRef.current = {};
+      if (followers.length > 0) setIsLoading(false);
+    };
+  }, [activeChatId]);
+
+  // Reload the thread if held changes touched it: a message it lacks, or one it shows was deleted or
+  // changed. Changes on other branches don't show. After the channel joins, reload regardless.
+  const applyRemoteMessageChanges = () => {
+    const { activeChatId: chatId, messages: localMessages, isBusy: busy } = syncStateRef.current;
+    if (!chatId || busy) return;
+    if (remoteCatchUpRef.current) {
+      remoteCatchUpRef.current = false;
+      remoteMessageChangesRef.current = [];
+      loadChatMessages(chatId, false, false);
+      return;
+    }
+    if (remoteMessageChangesRef.current.length === 0) return;
+
+    const changes = remoteMessageChangesRef.current;
+    remoteMessageChangesRef.current = [];
+
+    const isShown = (messageId?: string) => localMessages.some(message => message.messageid === messageId);
+    const outOfSync = changes.some(change => {
+      if (change.event === 'DELETE') return isShown(change.id);
+      return change.event === 'INSERT' ? !isShown(change.row.messageid) : isShown(change.row.messageid);
+    });
+    // Keep the model picked here; another device's choice shouldn't change it
+    if (outOfSync) {
+      loadChatMessages(chatId, false, false);
+    }
+  };
+
+  const scheduleRemoteMessageSync = () => {
+    if (remoteSyncTimerRef.current) clearTimeout(remoteSyncTimerRef.current);
+    remoteSyncTimerRef.current = setTimeout(() => {
+      remoteSyncTimerRef.current = null;
+      applyRemoteMessageChanges();
+    }, REMOTE_SYNC_DELAY_MS);
+  };
+
+  // Follow messages other tabs and devices write to the open chat
+  useEffect(() => {
+    if (!activeChatId) return;
+
+    const stopFollowing = subscribeToChatMessages(activeChatId, {
+      onChange: (change) => {
+        if (change.event === 'UPDATE') {
+          const messageId = change.row.messageid;
+          // Running answers are followed through their generation instead
+          if (!messageId || change.row.generation_status === 'running' || generationFollowersRef.current[messageId]) return;
+
+          // Changes to a message on screen merge in place, unless this tab is in the middle of something
+          if (!syncStateRef.current.isBusy) {
+            setMessages((prevMessages) => prevMessages.map(message =>
+              message.messageid === messageId ? { ...message, ...toChatMessage(change.row), branch: message.branch } : message
+            ));
+            return;
+          }
+        }
+
+        remoteMessageChangesRef.current.push(change);
+        scheduleRemoteMessageSync();
+      },
+      onSubscribed: () => {
+        remoteCatchUpRef.current = true;
+        scheduleRemoteMessageSync();
+      },
+      // Only deletes of messages on screen can put the thread out of step
+      isLoaded: (messageId) => syncStateRef.current.messages.some(message => message.messageid === messageId),
+    });
+
+    return () => {
+      stopFollowing();
+      if (remoteSyncTimerRef.current) clearTimeout(remoteSyncTimerRef.current);
+      remoteSyncTimerRef.current = null;
+      remoteMessageChangesRef.current = [];
+      remoteCatchUpRef.current = false;
+    };
+  }, [activeChatId]);
+
+  // Catch up on changes held while this tab was busy
+  useEffect(() => {
+    if (!isBusy) scheduleRemoteMessageSync();
+  }, [isBusy]);
+
+  // Keep the chat list in step with other tabs and devices
+  useEffect(() => {
+    if (!userId) return;
+
+    const scheduleChatListReload = () => {
+      if (chatListSyncTimerRef.current) clearTimeout(chatListSyncTimerRef.current);
+      chatListSyncTimerRef.current = setTimeout(() => {
+        chatListSyncTimerRef.current = null;
+        loadUserChats();
+      }, REMOTE_SYNC_DELAY_MS);
+    };
+
+    const stopFollowing = subscribeToUserChats(userId, {
+      onChange: (change) => {
+        if (change.event === 'INSERT') {
+          // New chats (an import writes many) come in with one reload
+          scheduleChatListReload();
+        } else if (change.event === 'UPDATE') {
+          // Realtime rows have no tags; tag changes arrive through onTagLinkChange
+          setUserChats(prevChats => {
+            const index = prevChats.findIndex(chat => chat.chatId === change.row.chatId);
+            if (index === -1) return prevChats;
+
+            const current = prevChats[index];
+            const updated = { ...change.row, tag_ids: current.tag_ids };
+            const isNewer = new Date(updated.latest_chat_timestamp || 0).getTime() > new Date(current.latest_chat_timestamp || 0).getTime();
+            // A chat with a new message moves to the top, as it does in the tab that sent it
+            return isNewer
+              ? [updated, ...prevChats.filter(chat => chat.chatId !== updated.chatId)]
+              : prevChats.map(chat => (chat.chatId === updated.chatId ? updated : chat));
+          });
+        } else {
+          const deletedChatId = change.id;
+          setUserChats(prevChats => prevChats.filter(chat => chat.chatId !== deletedChatId));
+          if (deletedChatId === syncStateRef.current.activeChatId) {
+            handleNewChat();
+          }
+        }
+      },
+      onTagLinkChange: ({ event, chatId, tagId }) => {
+        setUserChats(prevChats => prevChats.map(chat => {
+          if (chat.chatId !== chatId) return chat;
+          const otherTags = (chat.tag_ids || []).filter(id => id !== tagId);
+          return { ...chat, tag_ids: event === 'INSERT' ? [...otherTags, tagId] : otherTags };
+        }));
+      },
+      onSubscribed: scheduleChatListReload,
+      isLoaded: (chatId) => {
+        const { activeChatId: openChatId, userChats: loadedChats } = syncStateRef.current;
+        return chatId === openChatId || loadedChats.some(chat => chat.chatId === chatId);
+      },
+    });
+
+    return () => {
+      stopFollowing();
+      if (chatListSyncTimerRef.current) clearTimeout(chatListSyncTimerRef.current);
+      chatListSyncTimerRef.current = null;
+    };
+  }, [userId]);
+
+  // Load the active chat's own system prompt, generation and web search settings
+  useEffect(() => {
+    const loadChatSettings = async () => {
+      if (activeChatId) {
+        setChatSystemPrompt(await getChatSystemPrompt(activeChatId));
+        setChatGenerationParams(await getChatGenerationParams(activeChatId));
+        setChatWebSearch(await getChatWebSearch(activeChatId));
+      }
+    };
+
+    loadChatSettings();
+  }, [activeChatId]);
+
+  // Prompts set before the first message are kept locally until the chat exists
+  const handleSaveChatSystemPrompt = async (prompt: string | null) => {
+    if (!activeChatId || await updateChatSystemPrompt(activeChatId, prompt)) {
+      setChatSystemPrompt(prompt);
+    }
+  };
+
+  const handleSaveDefaultSystemPrompt = async (prompt: string | null) => {
+    if (await updateDefaultSystemPrompt(prompt)) {
+      setDefaultSystemPrompt(prompt);
+    }
+  };
+
+  // Like the system prompt, settings chosen before the first message wait for the chat to exist
+  const handleSaveChatGenerationParams = async (params: GenerationParams | null) => {
+    if (!activeChatId || await updateChatGenerationParams(activeChatId, params)) {
+      setChatGenerationParams(params);
+    }
+  };
+
+  const handleSaveChatWebSearch = async (settings: ChatWebSearchSettings) => {
+    if (!activeChatId || await updateChatWebSearch(activeChatId, settings)) {
+      setChatWebSearch(settings);
+    }
+  };
+
+  const handleSaveDefaultGenerationParams = async (params: GenerationParams | null) => {
+    if (await updateDefaultGenerationParams(params)) {
+      setDefaultGenerationParams(params);
+    }
+  };
+
+  // The chat's own settings, or the user's defaults when it has none
+  const getGenerationParams = (): GenerationParams => {
+    return (hasGenerationParams(chatGenerationParams) ? chatGenerationParams : defaultGenerationParams) || {};
+  };
+
+  const getEnabledTools = (): ToolName[] => (toolsEnabled ? CHAT_TOOLS.map(tool => tool.name) : []);
+
+  // Options for a request that searches the web, or null when it shouldn't search
+  const getWebSearchOptions = (forceSearch: boolean = false): WebSearchOptions | null => {
+    if (!forceSearch && !chatWebSearch?.enabled) return null;
+    return chatWebSearch?.options || {};
+  };
+
+  // Put the chat's system prompt (or the user's default) in front of the history
+  const withSystemPrompt = (history: ChatMessage[]): ChatMessage[] => {
+    const systemPrompt = chatSystemPrompt || defaultSystemPrompt;
+    return systemPrompt ? [{ role: 'system', content: systemPrompt }, ...history] : history;
+  };
+
   // Handle deleting a message
   const handleDeleteMessage = async (messageId: string) => {
     // Don't attempt to delete if messageId is undefined or empty
@@ -237,22 +688,16 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
     }
   }, [input]);
 
-  const loadChatMessages = async (chatId: string) => {
+  const loadChatMessages = async (chatId: string, scrollToLatest: boolean = true, restoreModel: boolean = true) => {
     const chatMessagesDb = await getChatMessages(chatId);
     
-    // Convert DB messages to the format we need, preserving the original messageid
-    const enhancedMessages = chatMessagesDb.map(msg => ({
-      role: msg.source === 'user' ? 'user' : 'assistant' as 'user' | 'assistant',
-      content: msg.message,
-      model: msg.source !== 'user' ? msg.source : undefined,
-      messageid: msg.messageid // Keep consistent with the property name used in the delete button
-    }));
+    const enhancedMessages = chatMessagesDb.map(msg => ({ ...toChatMessage(msg), branch: msg.branch }));
     
     setMessages(enhancedMessages);
 
     // Find the most recent assistant message to set the default model
     const assistantMessages = chatMessagesDb.filter(msg => msg.source !== 'user');
-    if (assistantMessages.length > 0) {
+    if (restoreModel && assistantMessages.length > 0) {
       // Get the most recent assistant message (last one in the array since they're ordered by created_at)
       const mostRecentAssistantMsg = assistantMessages[assistantMessages.length - 1];
       // Set the selected model to the one used in the most recent assistant message
@@ -262,71 +707,65 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
     }
     
     // Scroll to the latest message after loading the chat
-    setTimeout(() => {
-      messagesEndRef.current?.scrollIntoView({ behavior: 'auto' });
-    }, 100);
+    if (scrollToLatest) {
+      setTimeout(() => {
+        messagesEndRef.current?.scrollIntoView({ behavior: 'auto' });
+      }, 100);
+    }
   };
 
-  // Function to import OpenRouter conversations
-  const importOpenRouterConversation = async (data: OpenRouterExport) => {
-    try {
-      // Validate the format
-      if (!data.version || !data.messages || !data.characters) {
-        throw new Error('Invalid OpenRouter conversation format');
-      }
+  // Write the conversations picked in the import preview, then open the last one
+  const handleConfirmImport = async (conversations: ImportedConversation[]) => {
+    if (!pendingImport) return;
 
-      // Get the messages in chronological order
-      const messagesArray = Object.values(data.messages);
-      
-      // Sort by updatedAt timestamp
-      messagesArray.sort((a, b) => {
-        return new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime();
-      });
+    const controller = new AbortController();
+    setImportController(controller);
+    setImportProgress({ done: 0, total: conversations.length });
 
-      // Create a new chat
-      const chatId = await createChat('Imported Conversation');
-      if (!chatId) {
-        throw new Error('Failed to create a new chat');
-      }
+    const report = await importConversations(
+      pendingImport.importer.id,
+      conversations,
+      setImportProgress,
+      controller.signal
+    );
 
-      // Get the title from the first message (truncate if needed)
-      if (messagesArray.length > 0) {
-        const firstMessage = messagesArray[0];
-        const chatTitle = firstMessage.content.length > 25
-          ? firstMessage.content.substring(0, 25) + '...'
-          : firstMessage.content;
-        
-        await updateChatTitle(chatId, chatTitle);
-      }
+    setImportController(null);
+    setImportReport(report);
 
-      // Process and save each message
-      for (const message of messagesArray) {
-        // Determine if it's a user or assistant message
-        const isUserMessage = message.characterId === 'USER';
-        
-        // Get the model information for assistant messages
-        let modelName = 'assistant';
-        if (!isUserMessage && message.characterId && data.characters[message.characterId]) {
-          modelName = data.characters[message.characterId].model || 'assistant';
-        }
+    await loadUserChats();
+    if (report.lastChatId) {
+      setActiveChatId(report.lastChatId);
+    }
+  };
 
-        // Save the message to the database
-        await saveMessage(
-          chatId,
-          message.content,
-          isUserMessage ? 'user' : modelName
-        );
-      }
+  // Stop a running import, or close the preview and its report
+  const handleCancelImport = () => {
+    if (importController) {
+      importController.abort();
+      return;
+    }
 
-      // Refresh chat list and switch to the new chat
-      await loadUserChats();
-      setActiveChatId(chatId);
-      
-      return true;
+    setPendingImport(null);
+    setImportProgress(null);
+    setImportReport(null);
+  };
+
+  // Download one chat, or every chat when no ids are given
+  const handleExportChats = async (chatIds: string[] | null, format: ExportFormat) => {
+    let chats: ChatExportData[];
+    try {
+      chats = await getChatsForExport(chatIds);
     } catch (error) {
-      console.error('Error importing conversation:', error);
-      return false;
+      console.error('Error getting chats for export:', error);
+      alert(`Export failed: ${error instanceof Error ? error.message : 'could not read every message'}. Nothing was downloaded.`);
+      return;
+    }
+    if (chats.length === 0) {
+      alert('Nothing to export.');
+      return;
     }
+
+    downloadExport(buildExport(chats, format));
   };
 
   // Handle file upload
@@ -335,20 +774,22 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
     if (!file) return;
 
     const reader = new FileReader();
-    reader.onload = async (e) => {
+    reader.onload = (e) => {
       try {
         const content = e.target?.result as string;
-        const data = JSON.parse(content) as OpenRouterExport;
+        const parsed = parseImportFile(file.name, content);
         
-        const success = await importOpenRouterConversation(data);
-        if (success) {
-          alert('Conversation imported successfully!');
+        if (!parsed) {
+          alert('Unrecognised file. Import supports OpenRouter, ChatGPT and Claude exports and "User:/Assistant:" transcripts.');
+        } else if (parsed.conversations.length === 0) {
+          alert(`No conversations found in this ${parsed.importer.label} export.`);
         } else {
-          alert('Failed to import conversation. Check console for details.');
+          // Show what will be imported before writing anything
+          setPendingImport(parsed);
         }
       } catch (error) {
         console.error('Error parsing file:', error);
-        alert('Failed to parse file. Please make sure it\'s a valid JSON file.');
+        alert('Failed to read file. Check console for details.');
       }
     };
     reader.readAsText(file);
@@ -357,26 +798,220 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
     event.target.value = '';
   };
 
+  // Add a finished message's usage to its chat's running totals in the sidebar
+  const recordChatUsage = (chatId: string, usage: MessageUsage) => {
+    setUserChats(prevChats => prevChats.map(chat =>
+      chat.chatId === chatId
+        ? {
+            ...chat,
+            total_tokens: (chat.total_tokens || 0) + usage.promptTokens + usage.completionTokens,
+            total_cost: (chat.total_cost || 0) + (usage.cost || 0)
+          }
+        : chat
+    ));
+  };
+
+  // Stream one model's answer into its fan-out column while a server job saves it
+  const streamFanoutReply = async (
+    chatId: string,
+    parentId: string | null,
+    fanoutGroup: string,
+    model: string,
+    conversationHistory: ChatMessage[],
+    controller: AbortController,
+    webSearchOptions: WebSearchOptions | null
+  ): Promise<void> => {
+    const updateColumn = (changes: Partial<ChatMessage>) => {
+      setMessages((prevMessages) => prevMessages.map(message =>
+        message.fanoutGroup === fanoutGroup && message.model === model
+          ? { ...message, ...changes }
+          : message
+      ));
+    };
+
+    // Each model gets the history trimmed to its own context window
+    const prepared = await prepareConversation(
+      withSystemPrompt(conversationHistory),
+      availableModels.find(m => m.id === model),
+      contextStrategy,
+      contextKeepTurns
+    );
+
+    const generationParams = getGenerationParams();
+    const messageId = await saveStreamingMessage(
+      chatId, '', model, parentId, fanoutGroup, generationParams, webSearchOptions, prepared.trim
+    );
+    updateColumn({
+      messageid: messageId || undefined,
+      parentId: parentId || undefined,
+      contextTrim: prepared.trim,
+      generationParams,
+      webSearch: webSearchOptions || undefined,
+    });
+
+    let accumulatedContent = '';
+    let messageUsage: MessageUsage | undefined;
+    let collectedCitations: WebSearchCitation[] = [];
+
+    await new Promise<void>((resolve) => {
+      // The stream can report completion or an abort more than once
+      let settled = false;
+
+      streamGeneration(
+        messageId,
+        prepared.messages,
+        model,
+        (chunk) => {
+          if (chunk.usage) {
+            messageUsage = buildMessageUsage(chunk.usage, availableModels.find(m => m.id === model));
+          }
+
+          const contentDelta = chunk.choices[0]?.delta?.content || '';
+          if (contentDelta) {
+            accumulatedContent += contentDelta;
+            updateColumn({ content: accumulatedContent });
+          }
+
+          const delta = chunk.choices[0]?.delta;
+          if (delta?.annotations?.length || delta?.citations?.length) {
+            collectedCitations = mergeCitations(collectedCitations, delta.annotations, delta.citations);
+            updateColumn({ citations: collectedCitations });
+          }
+        },
+        () => {
+          if (settled) return;
+          settled = true;
+          if (messageUsage) {
+            updateColumn({ usage: messageUsage });
+            recordChatUsage(chatId, messageUsage);
+          }
+          resolve();
+        },
+        (error) => {
+          if (settled) return;
+          settled = true;
+          console.error(`Error during streaming from ${model}:`, error);
+
+          const wasAborted = error.name === 'AbortError' || error.message === 'Request aborted';
+          const errorMessage = accumulatedContent
+            ? accumulatedContent + (wasAborted
+                ? '\n\n_Generation stopped._'
+                : '\n\n_Error: Message streaming was interrupted._')
+            : wasAborted
+              ? 'Generation stopped.'
+              : 'Sorry, there was an error processing your request.';
+
+          updateColumn({ content: errorMessage });
+          resolve();
+        },
+        controller.signal,
+        webSearchOptions,
+        generationParams,
+        getEnabledTools(),
+        (records) => updateColumn({ toolResults: records }),
+      );
+    });
+
+    // Drop this model's abort control once its column has finished
+    setFanoutControllers((prevControllers) => {
+      const { [model]: _finished, ...remaining } = prevControllers;
+      return remaining;
+    });
+  };
+
+  // Send the same conversation to every fan-out model in parallel
+  const handleFanoutSubmit = async (
+    chatId: string,
+    parentId: string | null,
+    conversationHistory: ChatMessage[],
+    webSearchOptions: WebSearchOptions | null
+  ) => {
+    const fanoutGroup = crypto.randomUUID();
+    const models = [...fanoutModels];
+
+    const controllers: Record<string, AbortController> = {};
+    models.forEach(model => {
+      controllers[model] = new AbortController();
+    });
+    setFanoutControllers(controllers);
+
+    setMessages((prev) => [
+      ...prev,
+      ...models.map(model => ({
+        role: 'assistant' as const,
+        content: '',
+        model,
+        fanoutGroup,
+      })),
+    ]);
+
+    await Promise.all(models.map(model =>
+      streamFanoutReply(chatId, parentId, fanoutGroup, model, conversationHistory, controllers[model], webSearchOptions)
+    ));
+
+    setFanoutControllers({});
+    setIsLoading(false);
+    setIsSubmitting(false);
+  };
+
+  // Pick which fan-out answer the conversation continues from
+  const handleSelectFanoutAnswer = async (message: ChatMessage) => {
+    if (!activeChatId || !message.fanoutGroup || !message.messageid) return;
+
+    const success = await selectFanoutMessage(activeChatId, message.fanoutGroup, message.messageid);
+    if (success) {
+      setMessages((prevMessages) => prevMessages.map(m =>
+        m.fanoutGroup === message.fanoutGroup
+          ? { ...m, fanoutSelected: m.messageid === message.messageid }
+          : m
+      ));
+    }
+  };
+
+  // Stop every in-flight generation, single or fan-out, including ones re-attached after a reload
+  const handleStopGeneration = () => {
+    abortController?.abort();
+    Object.values(fanoutControllers).forEach(controller => controller.abort());
+    Object.keys(generationFollowersRef.current).forEach(messageId => {
+      abortGeneration(messageId).catch(console.error);
+    });
+  };
+
+  const toggleFanoutModel = (modelId: string) => {
+    setFanoutModels((prevModels) => {
+      // Start from the currently selected model when entering compare mode
+      const baseModels = prevModels.length > 0 ? prevModels : [selectedModel];
+      const nextModels = baseModels.includes(modelId)
+        ? baseModels.filter(id => id !== modelId)
+        : [...baseModels, modelId];
+      return nextModels.length > 1 ? nextModels : [];
+    });
+  };
+
   // Handle streaming submission
-  const handleStreamingSubmit = async (e: React.FormEvent | null, submittedText: string = input) => {
+  // Web search runs when the chat has it switched on, or once for a /websearch command
+  const handleStreamingSubmit = async (e: React.FormEvent | null, submittedText: string = input, isWebSearch: boolean = false) => {
     if (e) e.preventDefault();
     
-    let messageText = submittedText.trim();
-    if (!messageText || isLoading) return;
-
-    // Check if this is a web search query
-    const isWebSearch = messageText.startsWith('/websearch');
-    if (isWebSearch) {
-      // Remove the /websearch command from the message
-      messageText = messageText.substring('/websearch'.length).trim();
-      
-      // If there's no query after the command, don't proceed
-      if (!messageText) return;
+    const messageText = submittedText.trim();
+    if ((!messageText && pendingAttachments.length === 0 && pendingDocuments.length === 0) || isLoading) return;
+    if (extractingDocuments > 0) {
+      setComposerNotice({ type: 'error', text: 'Wait for the attached documents to finish reading.' });
+      return;
     }
 
     // Set submitting state to true immediately to prevent UI flashing
     setIsSubmitting(true);
     
+    // Upload images first so a failed upload doesn't leave an empty chat behind
+    const uploadedImages = await uploadPendingAttachments();
+    if (!uploadedImages) {
+      setComposerNotice({ type: 'error', text: 'Could not upload the attached images. Check console for details.' });
+      setIsSubmitting(false);
+      return;
+    }
+    const attachments = [...uploadedImages, ...pendingDocuments];
+
     // Create a new chat if one doesn't exist
     let currentChatId = activeChatId;
     let isNewChat = false;
@@ -387,6 +1022,16 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
         setIsSubmitting(false); // Reset state if creation fails
         return;
       }
+      // Carry over a system prompt set before the chat existed
+      if (chatSystemPrompt) {
+        await updateChatSystemPrompt(chatId, chatSystemPrompt);
+      }
+      if (chatGenerationParams) {
+        await updateChatGenerationParams(chatId, chatGenerationParams);
+      }
+      if (chatWebSearch) {
+        await updateChatWebSearch(chatId, chatWebSearch);
+      }
       currentChatId = chatId;
       setActiveChatId(chatId);
       isNewChat = true;
@@ -420,24 +1065,38 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
     // Store the original query for display and database storage
     const displayMessageText = isWebSearch ? `/websearch ${messageText}` : messageText;
     
+    // The new turn continues from the end of the branch on screen
+    const threadMessages = getThreadMessages(messages);
+    const threadParentId = threadMessages[threadMessages.length - 1]?.messageid || null;
+    
     // Add user message to chat - modify this section to ensure UI consistency
-    const userMessage: ChatMessage = { role: 'user', content: displayMessageText };
+    const userMessage: ChatMessage = {
+      role: 'user',
+      content: displayMessageText,
+      parentId: threadParentId || undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
+    };
     
     // Update messages state immediately with the user message only
     // This ensures the messages array is not empty and prevents UI flashing
     setMessages((prev) => [...prev, userMessage]);
     setInput('');
+    clearPendingAttachments();
     setIsLoading(true);
 
-    // Save user message to database
-    await saveMessage(currentChatId, displayMessageText, 'user');
+    // Save user message to database and attach its ID for later branching
+    const userMessageId = await saveMessage(currentChatId, displayMessageText, 'user', threadParentId, attachments);
+    if (userMessageId) {
+      setMessages((prev) => prev.map(m => m === userMessage ? { ...m, messageid: userMessageId } : m));
+    }
 
     // Update chat title if this is the first message in a new chat
     if (isNewChat || messages.length === 0) {
-      // Get first 25 characters for title
-      const chatTitle = displayMessageText.length > 25 
-        ? displayMessageText.substring(0, 25) + '...' 
-        : displayMessageText;
+      // Get first 25 characters for title; an image-only message is named after its first image
+      const titleText = displayMessageText || attachments[0]?.name || 'New Chat';
+      const chatTitle = titleText.length > 25 
+        ? titleText.substring(0, 25) + '...' 
+        : titleText;
       
       await updateChatTitle(currentChatId, chatTitle);
       loadUserChats(); // Refresh chat list to show new title
@@ -446,36 +1105,65 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
     try {
       // Format conversation history - pass the updated array with the new message
       // For web search, we use the actual search query without the command
-      const conversationHistory = [...messages];
+      const conversationHistory = [...threadMessages];
       
       // Add the user message with the actual query text for the API
-      conversationHistory.push({ role: 'user', content: messageText });
+      conversationHistory.push({ role: 'user', content: messageText, attachments: userMessage.attachments });
+      const webSearchOptions = getWebSearchOptions(isWebSearch);
+      
+      // Stream to several models at once when comparing
+      if (fanoutModels.length > 1) {
+        await handleFanoutSubmit(currentChatId, userMessageId, conversationHistory, webSearchOptions);
+        return;
+      }
+      
+      // Trim the history to fit the model's context window
+      const prepared = await prepareConversation(
+        withSystemPrompt(conversationHistory),
+        availableModels.find(m => m.id === selectedModel),
+        contextStrategy,
+        contextKeepTurns
+      );
       
       // Create initial message in UI
+      const generationParams = getGenerationParams();
       const initialAssistantMessage: ChatMessage = { 
         role: 'assistant', 
-        content: isWebSearch ? 'Searching the web...' : '', 
-        model: selectedModel 
+        content: webSearchOptions ? 'Searching the web...' : '', 
+        model: selectedModel,
+        parentId: userMessageId || undefined,
+        contextTrim: prepared.trim,
+        generationParams,
+        webSearch: webSearchOptions || undefined
       };
       setMessages((prev) => [...prev, initialAssistantMessage]);
       
       // Create initial message in database
-      const messageId = await saveStreamingMessage(currentChatId, '', selectedModel);
+      const messageId = await saveStreamingMessage(
+        currentChatId, '', selectedModel, userMessageId, undefined, generationParams, webSearchOptions, prepared.trim
+      );
       setStreamingMessageId(messageId);
       
-      // Accumulated content and citations for database updates
+      // Accumulated content, citations and usage for the UI; the server job saves the answer
       let accumulatedContent = '';
       let collectedCitations: WebSearchCitation[] = [];
+      let messageUsage: MessageUsage | undefined;
       
       // Create a new AbortController for this request
       const controller = new AbortController();
       setAbortController(controller);
       
       // Handle streaming chunks
-      await getChatCompletionStream(
-        conversationHistory,
+      await streamGeneration(
+        messageId,
+        prepared.messages,
         selectedModel,
         (chunk) => {
+          // Token usage arrives with the final chunk
+          if (chunk.usage) {
+            messageUsage = buildMessageUsage(chunk.usage, availableModels.find(m => m.id === selectedModel));
+          }
+          
           // Update the message content as chunks arrive
           const contentDelta = chunk.choices[0]?.delta?.content || '';
           
@@ -489,35 +1177,7 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
               accumulatedContent += contentDelta;
             }
             
-            // Process annotations (new format)
-            if (annotations.length > 0) {
-              annotations.forEach(annotation => {
-                if (annotation.type === 'url_citation' && annotation.url_citation) {
-                  // Convert URL citation to our WebSearchCitation format
-                  const { title, url } = annotation.url_citation;
-                  const existingIndex = collectedCitations.findIndex(c => c.url === url);
-                  
-                  if (existingIndex === -1) {
-                    collectedCitations.push({
-                      title: title,
-                      url: url,
-                      text: annotation.url_citation.content,
-                      number: collectedCitations.length + 1
-                    });
-                  }
-                }
-              });
-            }
-            
-            // Process citations (previous format)
-            if (citationsDelta.length > 0) {
-              citationsDelta.forEach(citation => {
-                const existingIndex = collectedCitations.findIndex(c => c.url === citation.url);
-                if (existingIndex === -1) {
-                  collectedCitations.push(citation);
-                }
-              });
-            }
+            collectedCitations = mergeCitations(collectedCitations, annotations, citationsDelta);
             
             // Update UI with the latest content and citations
             setMessages((prevMessages) => {
@@ -536,71 +1196,22 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
               
               return newMessages;
             });
-            
-            // Periodically update the message in the database
-            // Only update every ~100 characters to reduce database writes
-            if (accumulatedContent.length % 100 === 0 && messageId) {
-              // We use a separate call to updateStreamingMessage to avoid race conditions
-              updateStreamingMessage(messageId, accumulatedContent).catch(console.error);
-            }
           }
         },
         () => {
-          // When streaming is complete, format the message with citations if needed
-          let finalContent = accumulatedContent;
-
-          // Add citatio at the end of the message for display
-          if (collectedCitations.length > 0 && isWebSearch) {
-            // Format and append citations
-            const sortedCitations = [...collectedCitations].sort((a, b) => a.number - b.number);
-            finalContent += '\n\n**Citations:**\n';
-            sortedCitations.forEach((citation, index) => {
-              finalContent += `[${index + 1}] ${citation.title}: ${citation.url}\n`;
-            });
+          // Show the usage on the finished message
+          if (messageUsage && messageId) {
+            setMessages((prevMessages) => prevMessages.map(m =>
+              m.messageid === messageId ? { ...m, usage: messageUsage } : m
+            ));
+            recordChatUsage(currentChatId, messageUsage);
           }
 
-          // Save the final message to the database - store just the content, not JSON
-          if (messageId && finalContent) {
-            if (isWebSearch) {
-              // For web search, store the content with citations already formatted in the text
-              updateStreamingMessage(messageId, finalContent)
-                .then(() => {
-                  // Only after successfully updating the message in the database, reset states
-                  setIsLoading(false);
-                  setStreamingMessageId(null);
-                  setAbortController(null);
-                  setIsSubmitting(false); // Reset submitting state
-                })
-                .catch(error => {
-                  console.error('Error updating final message:', error);
-                  setIsLoading(false);
-                  setStreamingMessageId(null);
-                  setAbortController(null);
-                  setIsSubmitting(false); // Reset submitting state even on error
-                });
-            } else {
-              // For regular messages, store just the content, not JSON
-              updateStreamingMessage(messageId, accumulatedContent)
-                .then(() => {
-                  setIsLoading(false);
-                  setStreamingMessageId(null);
-                  setAbortController(null);
-                  setIsSubmitting(false);
-                })
-                .catch(error => {
-                  console.error('Error updating final message:', error);
-                  setIsLoading(false);
-                  setStreamingMessageId(null);
-                  setAbortController(null);
-                  setIsSubmitting(false);
-                });
-            }
-          } else {
-            setIsLoading(false);
-            setStreamingMessageId(null);
-            setAbortController(null);
-            setIsSubmitting(false); // Reset submitting state
-          }
+          // The job has already saved the final message
+          setIsLoading(false);
+          setStreamingMessageId(null);
+          setAbortController(null);
+          setIsSubmitting(false); // Reset submitting state
         },
         (error) => {
           console.error('Error during streaming:', error);
@@ -631,26 +1242,20 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
             return newMessages;
           });
           
-          // Save error state to database
-          if (messageId) {
-            const errorMessage = accumulatedContent 
-              ? accumulatedContent + (wasAborted 
-                  ? '\n\n_Generation stopped._' 
-                  : '\n\n_Error: Message streaming was interrupted._')
-              : wasAborted 
-                ? 'Generation stopped.'
-                : 'Sorry, there was an error processing your request.';
-                
-            updateStreamingMessage(messageId, errorMessage).catch(console.error);
-          }
-          
           setIsLoading(false);
           setStreamingMessageId(null);
           setAbortController(null);
           setIsSubmitting(false); // Reset submitting state
         },
         controller.signal,
-        isWebSearch, // Enable web search for this request
+        webSearchOptions,
+        generationParams,
+        getEnabledTools(),
+        (records) => {
+          setMessages((prevMessages) => prevMessages.map(m =>
+            m === initialAssistantMessage || (messageId && m.messageid === messageId) ? { ...m, toolResults: records } : m
+          ));
+        },
       );
     } catch (error) {
       console.error('Error setting up streaming:', error);
@@ -658,7 +1263,7 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
       setMessages((prev) => [...prev, errorMessage]);
       
       // Save error message to database
-      await saveMessage(currentChatId, errorMessage.content, 'system');
+      await saveMessage(currentChatId, errorMessage.content, 'system', userMessageId);
       setIsLoading(false);
       setAbortController(null);
       setIsSubmitting(false); // Reset submitting state
@@ -667,24 +1272,25 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
 
   // Modified handleSubmit to use streaming
   const handleSubmit = async (e: React.FormEvent | null, submittedText: string = input) => {
-    return handleStreamingSubmit(e, submittedText);
-  };
+    if (e) e.preventDefault();
+    setComposerNotice(null);
 
-  // Handle retry message - regenerate AI response for a user message
-  const handleRetryMessage = async (index: number) => {
-    // Don't do anything if we're already loading
-    if (isLoading) return;
-    
-    // Make sure this is a valid user message with a next message
-    if (index < 0 || index >= messages.length - 1 || messages[index].role !== 'user') {
+    // Anything starting with "/" goes to the command registry instead of the model
+    if (submittedText.trim().startsWith('/')) {
+      if (isLoading) return;
+      const result = await runSlashCommand(submittedText, slashCommandContext);
+      if (result) setComposerNotice(result);
+      if (result?.type !== 'error') setInput('');
       return;
     }
-    
-    // Get the user message that we want to retry
-    const userMessage = messages[index];
-    
-    // Get the current assistant message (the one that follows)
-    const assistantMessage = messages[index + 1];
+
+    return handleStreamingSubmit(null, submittedText);
+  };
+
+  // Generate a new answer as a sibling branch of the previous one.
+  // The history must end with the user message being answered.
+  const regenerateReply = async (history: ChatMessage[], previousBranch?: MessageBranch) => {
+    const userMessage = history[history.length - 1];
     
     // Make sure we have an active chat
     if (!activeChatId) {
@@ -695,76 +1301,113 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
     // Set loading state
     setIsLoading(true);
     
-    // If the assistant message has an ID, we'll update it instead of creating a new one
-    const messageId = assistantMessage.messageid;
+    // The new answer goes right after the user message; later turns belong to the old branch
+    const replyIndex = history.length;
+    let messageId: string | null = null;
     
     try {
-      // Format conversation history (including all messages up to the user message)
-      const conversationHistory = messages.slice(0, index + 1);
+      // Trim the history to fit the model's context window
+      const prepared = await prepareConversation(
+        withSystemPrompt(getThreadMessages(history)),
+        availableModels.find(m => m.id === selectedModel),
+        contextStrategy,
+        contextKeepTurns
+      );
       
-      // Update the UI to show that the message is being regenerated
-      setMessages((prevMessages) => {
-        const newMessages = [...prevMessages];
-        
-        // Update the assistant message to show loading state
-        if (index + 1 < newMessages.length && newMessages[index + 1].role === 'assistant') {
-          newMessages[index + 1] = {
-            ...newMessages[index + 1],
-            content: 'Regenerating...',
-          };
-        }
-        
-        return newMessages;
-      });
+      // Create the new branch in the database
+      const generationParams = getGenerationParams();
+      const webSearchOptions = getWebSearchOptions();
+      messageId = await saveStreamingMessage(
+        activeChatId,
+        '',
+        selectedModel,
+        userMessage.messageid || null,
+        undefined,
+        generationParams,
+        webSearchOptions,
+        prepared.trim
+      );
+      
+      const branch: MessageBranch | undefined = messageId
+        ? {
+            index: previousBranch ? previousBranch.siblingIds.length : 0,
+            siblingIds: [...(previousBranch?.siblingIds || []), messageId],
+          }
+        : undefined;
+      
+      // Show the new branch with a loading state
+      setMessages([
+        ...history,
+        {
+          role: 'assistant',
+          content: 'Regenerating...',
+          model: selectedModel,
+          messageid: messageId || undefined,
+          parentId: userMessage.messageid,
+          branch,
+          contextTrim: prepared.trim,
+          generationParams,
+          webSearch: webSearchOptions || undefined,
+        },
+      ]);
       
       // For streaming, we'll use the streaming approach
-      setStreamingMessageId(messageId || null);
+      setStreamingMessageId(messageId);
       
-      // Accumulated content for database updates
+      // Accumulated content, citations and usage for the UI; the server job saves the answer
       let accumulatedContent = '';
+      let collectedCitations: WebSearchCitation[] = [];
+      let messageUsage: MessageUsage | undefined;
       
       // Create a new AbortController for this request
       const controller = new AbortController();
       setAbortController(controller);
       
       // Handle streaming chunks
-      await getChatCompletionStream(
-        conversationHistory,
+      await streamGeneration(
+        messageId,
+        prepared.messages,
         selectedModel,
         (chunk) => {
+          // Token usage arrives with the final chunk
+          if (chunk.usage) {
+            messageUsage = buildMessageUsage(chunk.usage, availableModels.find(m => m.id === selectedModel));
+          }
+          
           // Update the message content as chunks arrive
           const contentDelta = chunk.choices[0]?.delta?.content || '';
+          const annotations = chunk.choices[0]?.delta?.annotations || [];
+          const citationsDelta = chunk.choices[0]?.delta?.citations || [];
           
-          // Only add content if there's something to add
-          if (contentDelta) {
+          // Only update if there's something to add
+          if (contentDelta || annotations.length > 0 || citationsDelta.length > 0) {
             accumulatedContent += contentDelta;
+            collectedCitations = mergeCitations(collectedCitations, annotations, citationsDelta);
             
             // Update UI
             setMessages((prevMessages) => {
               const newMessages = [...prevMessages];
-              // We're specifically updating the message at index + 1
-              if (index + 1 < newMessages.length && newMessages[index + 1].role === 'assistant') {
-                newMessages[index + 1] = {
-                  ...newMessages[index + 1],
+              // We're specifically updating the new reply
+              if (replyIndex < newMessages.length && newMessages[replyIndex].role === 'assistant') {
+                newMessages[replyIndex] = {
+                  ...newMessages[replyIndex],
                   content: accumulatedContent,
                   model: chunk.model,
-                  messageid: messageId || undefined // Keep the message ID
+                  citations: collectedCitations.length > 0 ? collectedCitations : undefined,
                 };
               }
               
               return newMessages;
             });
-            
-            // Periodically update the message in the database if we have a messageId
-            if (messageId && accumulatedContent.length % 100 === 0) {
-              updateStreamingMessage(messageId, accumulatedContent).catch(console.error);
-            }
           }
         },
         () => {
-          // When streaming is complete, save the final message to the database
-          if (messageId && accumulatedContent) {
-            updateStreamingMessage(messageId, accumulatedContent).catch(console.error);
+          // The job has already saved the final message
+          if (messageUsage) {
+            setMessages((prevMessages) => prevMessages.map((m, i) =>
+              i === replyIndex ? { ...m, usage: messageUsage } : m
+            ));
+            recordChatUsage(activeChatId, messageUsage);
           }
           setIsLoading(false);
           setStreamingMessageId(null);
@@ -776,45 +1419,39 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
           // Check if this was an abort error (user canceled the request)
           const wasAborted = error.name === 'AbortError' || error.message === 'Request aborted';
           
+          const errorMessage = accumulatedContent 
+            ? accumulatedContent + (wasAborted 
+                ? '\n\n_Generation stopped._' 
+                : '\n\n_Error: Message streaming was interrupted._')
+            : wasAborted 
+              ? 'Generation stopped.'
+              : 'Sorry, there was an error processing your request.';
+          
           // Handle error in UI
           setMessages((prevMessages) => {
             const newMessages = [...prevMessages];
             
-            // Update the specific assistant message with an error
-            if (index + 1 < newMessages.length && newMessages[index + 1].role === 'assistant') {
-              if (accumulatedContent) {
-                // Keep what we have so far and add error message if not aborted
-                newMessages[index + 1].content = accumulatedContent + 
-                  (wasAborted ? '\n\n_Generation stopped._' : '\n\n_Error: Message streaming was interrupted._');
-              } else {
-                // Replace loading message with error or abort message
-                newMessages[index + 1].content = wasAborted 
-                  ? 'Generation stopped.'
-                  : 'Sorry, there was an error processing your request.';
-              }
+            // Update the new reply with an error
+            if (replyIndex < newMessages.length && newMessages[replyIndex].role === 'assistant') {
+              newMessages[replyIndex] = { ...newMessages[replyIndex], content: errorMessage };
             }
             
             return newMessages;
           });
           
-          // Save error state to database if we have a messageId
-          if (messageId) {
-            const errorMessage = accumulatedContent 
-              ? accumulatedContent + (wasAborted 
-                  ? '\n\n_Generation stopped._' 
-                  : '\n\n_Error: Message streaming was interrupted._')
-              : wasAborted 
-                ? 'Generation stopped.'
-                : 'Sorry, there was an error processing your request.';
-                
-            updateStreamingMessage(messageId, errorMessage).catch(console.error);
-          }
-          
           setIsLoading(false);
           setStreamingMessageId(null);
           setAbortController(null);
         },
-        controller.signal
+        controller.signal,
+        webSearchOptions,
+        generationParams,
+        getEnabledTools(),
+        (records) => {
+          setMessages((prevMessages) => prevMessages.map((m, i) =>
+            i === replyIndex ? { ...m, toolResults: records } : m
+          ));
+        },
       );
     } catch (error) {
       console.error('Error retrying message:', error);
@@ -822,25 +1459,24 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
       // Check if this was an abort error
       const wasAborted = error instanceof Error && 
         (error.name === 'AbortError' || error.message === 'Request aborted');
+      const errorContent = wasAborted 
+        ? 'Generation stopped.' 
+        : 'Sorry, there was an error processing your request.';
       
       // Update the message in the UI with an error
       setMessages((prevMessages) => {
         const newMessages = [...prevMessages];
-        if (index + 1 < newMessages.length && newMessages[index + 1].role === 'assistant') {
-          newMessages[index + 1] = {
-            ...newMessages[index + 1],
-            content: wasAborted ? 'Generation stopped.' : 'Sorry, there was an error processing your request.',
-          };
+        if (replyIndex < newMessages.length && newMessages[replyIndex].role === 'assistant') {
+          newMessages[replyIndex] = { ...newMessages[replyIndex], content: errorContent };
         }
         return newMessages;
       });
       
       // Update the message in the database with an error
       if (messageId) {
-        const errorContent = wasAborted 
-          ? 'Generation stopped.' 
-          : 'Sorry, there was an error processing your request.';
-        await updateStreamingMessage(messageId, errorContent);
+        const writer = createMessageWriter(messageId);
+        writer.update({ content: errorContent });
+        await writer.close();
       }
     } finally {
       setIsLoading(false);
@@ -848,6 +1484,61 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
     }
   };
 
+  // Handle retry message - regenerate AI response for a user message
+  const handleRetryMessage = async (index: number) => {
+    // Don't do anything if we're already loading
+    if (isLoading) return;
+    
+    // Make sure this is a valid user message
+    if (index < 0 || index >= messages.length || messages[index].role !== 'user') {
+      return;
+    }
+    
+    await regenerateReply(messages.slice(0, index + 1), messages[index + 1]?.branch);
+  };
+
+  // Save an edited user message as a new branch and answer it
+  const handleSaveEdit = async (index: number) => {
+    const original = messages[index];
+    const content = editingContent.trim();
+    if (!activeChatId || (!content && !original.attachments?.length) || isLoading) return;
+    
+    // The edited message keeps the original's images
+    const messageId = await saveMessage(activeChatId, content, 'user', original.parentId || null, original.attachments);
+    if (!messageId) {
+      console.error('Failed to save edited message');
+      return;
+    }
+    
+    const editedMessage: ChatMessage = {
+      role: 'user',
+      content,
+      messageid: messageId,
+      parentId: original.parentId,
+      attachments: original.attachments,
+      branch: {
+        index: original.branch ? original.branch.siblingIds.length : 1,
+        siblingIds: [...(original.branch?.siblingIds || [original.messageid || '']), messageId],
+      },
+    };
+    
+    // Exit edit mode
+    setEditingMessageId(null);
+    setEditingContent('');
+    
+    await regenerateReply([...messages.slice(0, index), editedMessage]);
+  };
+
+  // Show a different branch of the conversation at this turn
+  const handleSwitchBranch = async (siblingId: string) => {
+    if (!activeChatId || !siblingId || isLoading) return;
+    
+    const success = await switchChatBranch(activeChatId, siblingId);
+    if (success) {
+      await loadChatMessages(activeChatId, false);
+    }
+  };
+
   // Handle deleting a chat
   const handleDeleteChat = async (chatId: string) => {
     try {
@@ -882,6 +1573,26 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
 
   // Handle Enter key for submission (Shift+Enter for new line)
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Autocomplete takes the arrow, Tab, Enter and Escape keys while it is open
+    if (commandSuggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setSelectedSuggestion((selectedSuggestion + step + commandSuggestions.length) % commandSuggestions.length);
+        return;
+      }
+      if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) {
+        e.preventDefault();
+        handleSelectCommandSuggestion(commandSuggestions[Math.min(selectedSuggestion, commandSuggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setDismissedSuggestionsFor(input);
+        return;
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(null, input);
@@ -891,6 +1602,9 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
   const handleNewChat = async () => {
     setMessages([]);
     setActiveChatId(null);
+    setChatSystemPrompt(null);
+    setChatGenerationParams(null);
+    setChatWebSearch(null);
     setIsMobileSidebarOpen(false);
     
     // Add a small delay to ensure DOM updates before scrolling
@@ -903,6 +1617,33 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
     setActiveChatId(chatId);
   };
 
+  // Open a chat at a search hit, switching to the branch that contains it if needed
+  const handleOpenSearchResult = async (chatId: string, messageId: string | null) => {
+    if (!messageId) {
+      handleSelectChat(chatId);
+      return;
+    }
+
+    const path = await getChatMessages(chatId);
+    if (!path.some(message => message.messageid === messageId)) {
+      await switchChatBranch(chatId, messageId);
+    }
+
+    setHighlightMessageId(messageId);
+    if (chatId === activeChatId) {
+      loadChatMessages(chatId, false);
+    } else {
+      setActiveChatId(chatId);
+    }
+  };
+
+  // Mirror pin, folder and tag changes made in the sidebar
+  const handleChatUpdated = (chatId: string, changes: Partial<Chat>) => {
+    setUserChats(prevChats => prevChats.map(chat =>
+      chat.chatId === chatId ? { ...chat, ...changes } : chat
+    ));
+  };
+
   const handleUpdateChatTitle = async (chatId: string, newTitle: string) => {
     const success = await updateChatTitle(chatId, newTitle);
     if (success) {
@@ -914,6 +1655,112 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
     setSelectedModel(modelId);
   };
 
+  // Queue pasted, dropped or picked files for the next message
+  const addFiles = (files: File[]) => {
+    const errors: string[] = [];
+    const accepted: PendingAttachment[] = [];
+
+    files.forEach(file => {
+      if (isDocumentFile(file)) {
+        addDocumentFile(file);
+        return;
+      }
+
+      const error = validateImageFile(file);
+      if (error) {
+        errors.push(error);
+      } else if (pendingAttachments.length + accepted.length >= MAX_ATTACHMENTS) {
+        errors.push(`At most ${MAX_ATTACHMENTS} images can be sent with one message.`);
+      } else {
+        accepted.push({ file, previewUrl: URL.createObjectURL(file) });
+      }
+    });
+
+    setPendingAttachments(prev => [...prev, ...accepted]);
+    setComposerNotice(errors.length > 0 ? { type: 'error', text: Array.from(new Set(errors)).join(' ') } : null);
+  };
+
+  const addDocumentFile = async (file: File) => {
+    setExtractingDocuments(count => count + 1);
+    try {
+      const document = await extractDocument(file);
+      setPendingDocuments(prev => [...prev, document]);
+    } catch (error) {
+      console.error('Error reading document:', error);
+      setComposerNotice({ type: 'error', text: error instanceof Error ? error.message : `Could not read ${file.name}.` });
+    } finally {
+      setExtractingDocuments(count => count - 1);
+    }
+  };
+
+  const removePendingAttachment = (index: number) => {
+    URL.revokeObjectURL(pendingAttachments[index].previewUrl);
+    setPendingAttachments(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const clearPendingAttachments = () => {
+    pendingAttachments.forEach(attachment => URL.revokeObjectURL(attachment.previewUrl));
+    setPendingAttachments([]);
+    setPendingDocuments([]);
+  };
+
+  // Null when any upload fails, so the message is not sent without its images
+  const uploadPendingAttachments = async (): Promise<MessageAttachment[] | null> => {
+    const uploaded = await Promise.all(pendingAttachments.map(attachment => uploadAttachment(attachment.file)));
+    return uploaded.every(Boolean) ? uploaded as MessageAttachment[] : null;
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    // Pasted text stays in the textarea; only pasted files become attachments
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  const handleDropFiles = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  // Models that would receive the pending images but can't read them
+  const imageBlindModels = pendingAttachments.length === 0
+    ? []
+    : (fanoutModels.length > 1 ? fanoutModels : [selectedModel])
+        .filter(modelId => !supportsImageInput(availableModels.find(model => model.id === modelId)));
+
+  // What slash commands are allowed to do
+  const slashCommandContext: SlashCommandContext = {
+    models: availableModels,
+    hasActiveChat: !!activeChatId,
+    setModel: (modelId) => {
+      setFanoutModels([]);
+      handleModelChange(modelId);
+    },
+    setSystemPrompt: (prompt) => handleSaveChatSystemPrompt(prompt),
+    clearChat: () => handleNewChat(),
+    exportChat: (format) => handleExportChats(activeChatId ? [activeChatId] : [], format),
+    setTitle: (title) => activeChatId ? handleUpdateChatTitle(activeChatId, title) : Promise.resolve(),
+    sendMessage: (text, useWebSearch) => handleStreamingSubmit(null, text, useWebSearch),
+  };
+
+  const commandSuggestions = input === dismissedSuggestionsFor
+    ? []
+    : getSlashCommandSuggestions(input, slashCommandContext);
+
+  const handleInputChange = (value: string) => {
+    setInput(value);
+    setSelectedSuggestion(0);
+    setComposerNotice(null);
+  };
+
+  const handleSelectCommandSuggestion = (suggestion: SlashCommandSuggestion) => {
+    handleInputChange(suggestion.value);
+    textareaRef.current?.focus();
+  };
+
   const getModelColor = (modelId: string) => {
     if (modelId.includes('microsoft')) return 'blue';
     if (modelId.includes('qwen')) return 'purple';
@@ -940,6 +1787,9 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
         onSelectChat={handleSelectChat}
         onUpdateChatTitle={handleUpdateChatTitle}
         onDeleteChat={handleDeleteChat}
+        onExportChats={handleExportChats}
+        onOpenSearchResult={handleOpenSearchResult}
+        onChatUpdated={handleChatUpdated}
         isMobileOpen={isMobileSidebarOpen}
         onMobileClose={() => setIsMobileSidebarOpen(false)}
       />
@@ -959,6 +1809,13 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
           <h1 className="font-bold text-xl">Orchestrate</h1>
         </div>
 
+        <SystemPromptBar
+          chatPrompt={chatSystemPrompt}
+          defaultPrompt={defaultSystemPrompt}
+          onSaveChatPrompt={handleSaveChatSystemPrompt}
+          onSaveDefaultPrompt={handleSaveDefaultSystemPrompt}
+        />
+
         <div className="flex-1 overflow-y-auto scrollbar-thin scrollbar-thumb-zinc-700 scrollbar-track-transparent w-[26rem] sm:w-auto" ref={chatContainerRef}>          {(messages.length === 0 && !activeChatId && !isSubmitting) ? (
             <div className="h-full flex flex-col items-center justify-center px-4">
               <h1 className="text-2xl md:text-3xl font-semibold mb-8 text-center">How can I help you?</h1>              
@@ -977,9 +1834,24 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
           ) : (
             <div className="max-w-3xl mx-auto w-full py-4 md:py-8 px-3 md:px-4">
               <div className="flex flex-col space-y-4">
-                {messages.map((message, index) => (
+                {messages.map((message, index) => message.fanoutGroup ? (
+                  // Render a fan-out group once, at its first column
+                  index > 0 && messages[index - 1].fanoutGroup === message.fanoutGroup ? null : (
+                    <div key={message.fanoutGroup} className="flex flex-col items-start">
+                      <FanoutGroup
+                        messages={messages.filter(m => m.fanoutGroup === message.fanoutGroup)}
+                        streamingModels={Object.keys(fanoutControllers)}
+                        onStop={(model) => fanoutControllers[model]?.abort()}
+                        onSelect={handleSelectFanoutAnswer}
+                        formatModelName={formatModelName}
+                      />
+                      <BranchSwitcher branch={message.branch} disabled={isLoading} onSwitch={handleSwitchBranch} />
+                    </div>
+                  )
+                ) : (
                   <div
                     key={index}
+                    data-message-id={message.messageid}
                     className={`flex flex-col ${
                       message.role === 'user' ? 'items-end' : 'items-start'
                     } animate-fade-in group`}
@@ -987,12 +1859,27 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
                     <div className="text-xs text-zinc-500 mb-1 px-1">
                       {message.role === 'user' ? userDisplayName || user.email : `AI (${formatModelName(message.model || selectedModel)})`}
                     </div>
+                    {message.contextTrim && (
+                      <div className="text-xs text-amber-500/80 mb-1 px-1">
+                        {formatContextTrim(message.contextTrim)}
+                      </div>
+                    )}
+                    {message.attachments && message.attachments.length > 0 && (
+                      <MessageAttachments attachments={message.attachments} />
+                    )}
+                    {message.toolResults && message.toolResults.length > 0 && (
+                      <div className="w-full max-w-3xl">
+                        {message.toolResults.map((record, recordIndex) => (
+                          <ToolCallCard key={recordIndex} record={record} />
+                        ))}
+                      </div>
+                    )}
                     <div
-                      className={
+                      className={`${
                         message.role === 'user'
                           ? 'chat-message-user relative group'
                           : 'chat-message-assistant relative group'
-                      }
+                      } ${highlightMessageId === message.messageid ? 'ring-2 ring-purple-500' : ''}`}
                     >
                       <div className="message-content">
                         {editingMessageId === message.messageid ? (
@@ -1019,23 +1906,7 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
                                 Cancel
                               </button>
                               <button
-                                onClick={async () => {
-                                  if (message.messageid && editingContent.trim()) {
-                                    // Save the edited message to the database
-                                    await updateStreamingMessage(message.messageid, editingContent.trim());
-                                    
-                                    // Update the message in the UI
-                                    setMessages(messages.map(m => 
-                                      m.messageid === message.messageid 
-                                        ? { ...m, content: editingContent.trim() } 
-                                        : m
-                                    ));
-                                    
-                                    // Exit edit mode
-                                    setEditingMessageId(null);
-                                    setEditingContent('');
-                                  }
-                                }}
+                                onClick={() => handleSaveEdit(index)}
                                 className="px-3 py-1 text-xs bg-purple-700 hover:bg-purple-600 rounded-md transition-colors"
                               >
                                 Save
@@ -1052,16 +1923,18 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
                                   }
                                 },
                                 a: {
-                                  component: ({ children, ...props }) => (
-                                    <a {...props}>[{children}]</a>
-                                  )
+                                  component: CitationLink,
+                                  props: { citations: message.citations || [] }
                                 }
                               }
                             }}
                           >
-                            {message.content}
+                            {linkCitationMarkers(message.content, message.citations || [])}
                           </Markdown>
                         )}
+                        {message.role === 'assistant' && message.citations && message.citations.length > 0 && (
+                          <CitationList citations={message.citations} />
+                        )}
                         
                         {/* Message action buttons - visible only on hover */}
                         {message.messageid && !editingMessageId && (
@@ -1083,7 +1956,7 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
                                 ✏️
                               </button>
                             )}
-                            {message.role === 'user' && (
+                            {message.role === 'user' && !messages[index + 1]?.fanoutGroup && (
                               <button
                                 onClick={() => handleRetryMessage(index)}
                                 className="p-1 text-green-400 hover:text-green-300 transition-colors"
@@ -1138,6 +2011,16 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
                         )}
                       </div>
                     </div>
+                    {(message.usage || hasGenerationParams(message.generationParams) || message.webSearch) && (
+                      <div className="text-xs text-zinc-500 mt-1 px-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                        {[
+                          message.usage && formatMessageUsage(message.usage),
+                          message.generationParams && formatGenerationParams(message.generationParams),
+                          message.webSearch && formatWebSearchOptions(message.webSearch),
+                        ].filter(Boolean).join(' · ')}
+                      </div>
+                    )}
+                    <BranchSwitcher branch={message.branch} disabled={isLoading} onSwitch={handleSwitchBranch} />
                   </div>
                 ))}
               </div>
@@ -1148,25 +2031,102 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
 
         <div className="p-3 md:p-4 lg:p-6">
           <div className="max-w-3xl mx-auto">
-            <form onSubmit={(e) => handleSubmit(e)} className="chat-input-container">
+            <form
+              onSubmit={(e) => handleSubmit(e)}
+              onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes('Files')) return;
+                e.preventDefault();
+                setIsDraggingFiles(true);
+              }}
+              onDragLeave={() => setIsDraggingFiles(false)}
+              onDrop={handleDropFiles}
+              className={`chat-input-container ${isDraggingFiles ? 'ring-2 ring-purple-500' : ''}`}
+            >
+              {commandSuggestions.length > 0 && (
+                <SlashCommandMenu
+                  suggestions={commandSuggestions}
+                  selectedIndex={Math.min(selectedSuggestion, commandSuggestions.length - 1)}
+                  onSelect={handleSelectCommandSuggestion}
+                />
+              )}
+              {(pendingDocuments.length > 0 || extractingDocuments > 0) && (
+                <div className="flex flex-col gap-2 px-3 pt-3">
+                  {pendingDocuments.map((document, index) => (
+                    <DocumentChip
+                      key={index}
+                      document={document}
+                      onRemove={() => setPendingDocuments(prev => prev.filter((_, i) => i !== index))}
+                    />
+                  ))}
+                  {extractingDocuments > 0 && (
+                    <div className="text-xs text-zinc-500">Reading {extractingDocuments} document{extractingDocuments === 1 ? '' : 's'}...</div>
+                  )}
+                </div>
+              )}
+              {pendingAttachments.length > 0 && (
+                <div className="flex flex-wrap gap-2 px-3 pt-3">
+                  {pendingAttachments.map((attachment, index) => (
+                    <div key={attachment.previewUrl} className="relative group">
+                      <img
+                        src={attachment.previewUrl}
+                        alt={attachment.file.name}
+                        title={attachment.file.name}
+                        className="h-16 w-16 object-cover rounded-md border border-zinc-700"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removePendingAttachment(index)}
+                        className="absolute -top-2 -right-2 h-5 w-5 flex items-center justify-center rounded-full bg-zinc-700 hover:bg-red-500 text-xs text-white"
+                        aria-label={`Remove ${attachment.file.name}`}
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
               <div className="flex items-end">
                 <textarea
                   ref={textareaRef}
                   value={input}
-                  onChange={(e) => setInput(e.target.value)}
+                  onChange={(e) => handleInputChange(e.target.value)}
                   onKeyDown={handleKeyDown}
-                  placeholder="Type your message here..."
+                  onPaste={handlePaste}
+                  placeholder="Type a message, or / for commands"
                   className="flex-1 bg-transparent resize-none max-h-36 py-2 px-3 focus:outline-none dark:text-gray-100 text-gray-800 min-h-[44px]"
                   rows={1}
                   disabled={isLoading}
                 />
                 <div className="flex items-center pl-2 min-h-[44px]">
+                  <input
+                    ref={attachmentInputRef}
+                    type="file"
+                    accept={[...IMAGE_MIME_TYPES, DOCUMENT_ACCEPT].join(',')}
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      addFiles(Array.from(e.target.files || []));
+                      e.target.value = '';
+                    }}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => attachmentInputRef.current?.click()}
+                    disabled={isLoading}
+                    className="p-3 rounded-md text-gray-400 hover:text-white disabled:opacity-50"
+                    aria-label="Attach files"
+                    title="Attach images or documents"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                      <path fillRule="evenodd" d="M8 4a3 3 0 00-3 3v4a5 5 0 0010 0V7a1 1 0 112 0v4a7 7 0 11-14 0V7a5 5 0 0110 0v4a3 3 0 11-6 0V7a1 1 0 012 0v4a1 1 0 102 0V7a3 3 0 00-3-3z" clipRule="evenodd" />
+                    </svg>
+                  </button>
                   <div className="flex items-center border-l border-zinc-700/50">
                     <button
                       type={isLoading ? "button" : "submit"}
-                      disabled={!isLoading && !input.trim()}
+                      disabled={!isLoading && !input.trim() && pendingAttachments.length === 0 && pendingDocuments.length === 0}
                       className="p-3 rounded-md text-gray-300 hover:text-white disabled:opacity-50 disabled:hover:text-gray-300"
-                      onClick={isLoading && abortController ? () => abortController.abort() : undefined}
+                      onClick={isLoading ? handleStopGeneration : undefined}
                     >
                       {isLoading ? (
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-red-400 hover:text-red-300 transition-colors" viewBox="0 0 20 20" fill="currentColor">
@@ -1182,19 +2142,79 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
                 </div>
               </div>
             </form>
+            {imageBlindModels.length > 0 && (
+              <div className="mt-2 px-1 text-xs text-amber-500/80">
+                {imageBlindModels.map(formatModelName).join(', ')} {imageBlindModels.length === 1 ? 'doesn\'t' : 'don\'t'} accept image input; the images may be ignored or the request rejected.
+              </div>
+            )}
+            {composerNotice && (
+              <div className={`mt-2 px-1 text-xs ${composerNotice.type === 'error' ? 'text-red-400' : 'text-zinc-400'}`}>
+                {composerNotice.text}
+              </div>
+            )}
             <div className="flex mt-2 justify-between items-center text-xs text-zinc-500">
               <div className="hidden sm:block">Press Enter to send</div>
               <div className="flex items-center gap-3">
+                <select
+                  value={contextStrategy}
+                  onChange={(e) => handleContextStrategyChange(e.target.value as ContextStrategy)}
+                  className="bg-transparent hover:text-white cursor-pointer focus:outline-none"
+                  title="How to shorten conversations that no longer fit the model"
+                  aria-label="Context strategy"
+                >
+                  {CONTEXT_STRATEGIES.map(strategy => (
+                    <option key={strategy.id} value={strategy.id} className="bg-zinc-800">
+                      {strategy.label}
+                    </option>
+                  ))}
+                </select>
+                {contextStrategy === 'drop-oldest' && (
+                  <input
+                    type="number"
+                    min={1}
+                    value={contextKeepTurns}
+                    onChange={(e) => handleContextKeepTurnsChange(Number(e.target.value))}
+                    className="w-12 bg-transparent border border-zinc-700 rounded px-1 hover:text-white focus:outline-none focus:border-purple-500"
+                    title="Number of most recent turns to send"
+                    aria-label="Turns to keep"
+                  />
+                )}
+                <label
+                  className="flex items-center gap-1 hover:text-white cursor-pointer"
+                  title={`Let the model use: ${CHAT_TOOLS.map(tool => tool.label).join(', ')}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={toolsEnabled}
+                    onChange={(e) => handleToolsEnabledChange(e.target.checked)}
+                    className="accent-purple-500"
+                  />
+                  Tools
+                </label>
+                <WebSearchSettings
+                  settings={chatWebSearch || { enabled: false, options: {} }}
+                  disabled={isLoading}
+                  onSave={handleSaveChatWebSearch}
+                />
+                <GenerationSettings
+                  chatParams={chatGenerationParams}
+                  defaultParams={defaultGenerationParams}
+                  disabled={isLoading}
+                  onSaveChatParams={handleSaveChatGenerationParams}
+                  onSaveDefaultParams={handleSaveDefaultGenerationParams}
+                />
                 <div className="relative flex justify-end" ref={dropdownRef}>
                   <button 
                     onClick={() => setIsModelDropdownOpen(!isModelDropdownOpen)}
                     className="hover:text-white cursor-pointer transition-colors"
                     aria-label="Select model"
                   >
-                    {selectedModel.split('/').pop() || 'AI Model'} ▼
+                    {fanoutModels.length > 1
+                      ? `${fanoutModels.length} models`
+                      : selectedModel.split('/').pop() || 'AI Model'} ▼
                   </button>
                   {isModelDropdownOpen && (
-                    <div className="fixed sm:absolute bottom-16 sm:bottom-full right-3 sm:right-0 left-auto z-20 w-[calc(100%-24px)] sm:w-64 md:w-72 mb-0 sm:mb-2 bg-zinc-800 border border-zinc-700 rounded-lg shadow-lg overflow-hidden">
+                    <div className="fixed sm:absolute bottom-16 sm:bottom-full right-3 sm:right-0 left-auto z-20 w-[calc(100%-24px)] sm:w-80 md:w-96 mb-0 sm:mb-2 bg-zinc-800 border border-zinc-700 rounded-lg shadow-lg overflow-hidden">
                       <div className="p-2">
                         <input
                           type="text"
@@ -1203,13 +2223,54 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
                           placeholder="Search models"
                           className="w-full px-3 py-2 text-sm bg-zinc-900 border border-zinc-700 rounded-md focus:outline-none focus:ring-1 focus:ring-purple-500"
                         />
+                        <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                          <select
+                            value={modelFilters.minContextLength}
+                            onChange={(e) => setModelFilters({ ...modelFilters, minContextLength: Number(e.target.value) })}
+                            className="bg-zinc-900 border border-zinc-700 rounded-md px-1 py-1 focus:outline-none"
+                            aria-label="Minimum context length"
+                          >
+                            <option value={0}>Any context</option>
+                            <option value={32000}>32k+</option>
+                            <option value={128000}>128k+</option>
+                            <option value={1000000}>1M+</option>
+                          </select>
+                          <select
+                            value={modelFilters.maxPromptPricePerMillion ?? ''}
+                            onChange={(e) => setModelFilters({
+                              ...modelFilters,
+                              maxPromptPricePerMillion: e.target.value === '' ? null : Number(e.target.value),
+                            })}
+                            className="bg-zinc-900 border border-zinc-700 rounded-md px-1 py-1 focus:outline-none"
+                            aria-label="Maximum input price"
+                          >
+                            <option value="">Any price</option>
+                            <option value={0}>Free</option>
+                            <option value={1}>≤ $1/M</option>
+                            <option value={5}>≤ $5/M</option>
+                          </select>
+                          {['image', 'file'].map(modality => (
+                            <button
+                              key={modality}
+                              onClick={() => setModelFilters({
+                                ...modelFilters,
+                                inputModalities: modelFilters.inputModalities.includes(modality)
+                                  ? modelFilters.inputModalities.filter(m => m !== modality)
+                                  : [...modelFilters.inputModalities, modality],
+                              })}
+                              className={`px-2 py-1 rounded-md border transition-colors ${
+                                modelFilters.inputModalities.includes(modality)
+                                  ? 'border-purple-500 bg-purple-900/40 text-white'
+                                  : 'border-zinc-700 hover:text-white'
+                              }`}
+                            >
+                              {modality}
+                            </button>
+                          ))}
+                        </div>
                       </div>
                       <div className="max-h-60 md:max-h-80 overflow-y-auto">
-                        {availableModels
-                          .filter((model) => 
-                            model.name.toLowerCase().includes(modelSearchQuery.toLowerCase()) ||
-                            model.id.toLowerCase().includes(modelSearchQuery.toLowerCase())
-                          )
+                        {filterModels(availableModels, modelSearchQuery, modelFilters)
                           .map((model) => (
                             <div
                               key={model.id}
@@ -1218,6 +2279,8 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
                               }`}
                               onClick={() => {
                                 setSelectedModel(model.id);
+                                // Picking a single model leaves compare mode
+                                setFanoutModels([]);
                                 setIsModelDropdownOpen(false);
                               }}
                             >
@@ -1230,9 +2293,44 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
                                   {model.id.split('/')[0]?.charAt(0)?.toUpperCase() || '?'}
                                 </div>
                               </div>
-                              <div className="font-medium text-white">
-                                {model.name || formatModelName(model.id)}
+                              <div className="flex-1 min-w-0" title={model.description}>
+                                <div className="font-medium text-white truncate">
+                                  {model.name || formatModelName(model.id)}
+                                </div>
+                                {(model.context_length || model.pricing || getModalityBadges(model).length > 0) && (
+                                  <div className="flex flex-wrap items-center gap-1 mt-0.5 text-[11px] text-zinc-400 font-normal">
+                                    {model.context_length && (
+                                      <span>{formatContextLength(model.context_length)} ctx</span>
+                                    )}
+                                    {model.pricing && (
+                                      <span>
+                                        · {model.pricing.prompt === 0 && model.pricing.completion === 0
+                                          ? 'Free'
+                                          : `${formatPricePerMillion(model.pricing.prompt)}/${formatPricePerMillion(model.pricing.completion)} per M`}
+                                      </span>
+                                    )}
+                                    {getModalityBadges(model).map(modality => (
+                                      <span key={modality} className="px-1 rounded bg-zinc-700 text-zinc-300">
+                                        {modality}
+                                      </span>
+                                    ))}
+                                  </div>
+                                )}
                               </div>
+                              {model.provider && model.provider !== 'openrouter' && (
+                                <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] uppercase tracking-wide bg-zinc-700 text-zinc-300">
+                                  {model.provider === 'mock' ? 'mock' : 'local'}
+                                </span>
+                              )}
+                              <input
+                                type="checkbox"
+                                checked={fanoutModels.includes(model.id)}
+                                onClick={(e) => e.stopPropagation()}
+                                onChange={() => toggleFanoutModel(model.id)}
+                                className="ml-2 accent-purple-500"
+                                title="Compare this model"
+                                aria-label={`Compare ${model.name || model.id}`}
+                              />
                             </div>
                           ))}
                       </div>
@@ -1246,7 +2344,7 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
                   <input
                     id="fileUpload"
                     type="file"
-                    accept=".json"
+                    accept=".json,.md,.markdown,.txt"
                     onChange={handleFileUpload}
                     className="hidden"
                   />
@@ -1256,6 +2354,17 @@ const ChatComponent: React.FC<ChatComponentProps> = ({ userId, user, userDisplay
           </div>
         </div>
       </main>
+
+      {pendingImport && (
+        <ImportPreview
+          formatLabel={pendingImport.importer.label}
+          conversations={pendingImport.conversations}
+          progress={importProgress}
+          report={importReport}
+          onConfirm={handleConfirmImport}
+          onCancel={handleCancelImport}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { useTheme } from './ThemeContext';
+import { supabase } from '@/lib/supabase';
+import {
+  SearchFilters,
+  SearchResult,
+  SearchRole,
+  DEFAULT_SEARCH_FILTERS,
+  searchMessages,
+  splitSnippet,
+} from '@/lib/search';
+
+interface ChatSearchProps {
+  onOpenResult: (chatId: string, messageId: string | null) => void;
+  // Lets the sidebar swap its chat list for the results while a search is active
+  onActiveChange: (active: boolean) => void;
+}
+
+// Wait for a pause in typing before querying
+const SEARCH_DEBOUNCE_MS = 300;
+
+const ChatSearch: React.FC<ChatSearchProps> = ({ onOpenResult, onActiveChange }) => {
+  const { theme } = useTheme();
+  const [query, setQuery] = useState<string>('');
+  const [filters, setFilters] = useState<SearchFilters>(DEFAULT_SEARCH_FILTERS);
+  const [showFilters, setShowFilters] = useState<boolean>(false);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState<boolean>(false);
+
+  const isActive = query.trim() !== '';
+
+  useEffect(() => {
+    onActiveChange(isActive);
+  }, [isActive]);
+
+  useEffect(() => {
+    if (!isActive) {
+      setResults([]);
+      return;
+    }
+
+    // Drop results from a query that was typed over in the meantime
+    let isCurrent = true;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      const found = await searchMessages(supabase, query.trim(), filters);
+      if (isCurrent) {
+        setResults(found);
+        setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [query, filters]);
+
+  const inputClass = `w-full px-2 py-1 text-xs rounded-md focus:outline-none focus:ring-1 focus:ring-purple-500 ${
+    theme === 'dark' ? 'bg-zinc-900 border border-zinc-700 text-white' : 'bg-white border border-zinc-300 text-gray-800'
+  }`;
+
+  return (
+    <div className="px-3 pb-2">
+      <div className="flex items-center gap-1">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search chats"
+          className={`${inputClass} py-1.5 text-sm`}
+          aria-label="Search chats"
+        />
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`px-1 text-xs transition-colors ${showFilters ? 'text-purple-400' : 'text-zinc-500 hover:text-purple-400'}`}
+          aria-label="Search filters"
+          title="Filters"
+        >
+          ⚙
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="grid grid-cols-2 gap-1 mt-2">
+          <input
+            type="text"
+            value={filters.model}
+            onChange={(e) => setFilters({ ...filters, model: e.target.value })}
+            placeholder="Model"
+            className={inputClass}
+            aria-label="Model"
+          />
+          <select
+            value={filters.role || ''}
+            onChange={(e) => setFilters({ ...filters, role: (e.target.value || null) as SearchRole | null })}
+            className={inputClass}
+            aria-label="Role"
+          >
+            <option value="">Any role</option>
+            <option value="user">User</option>
+            <option value="assistant">Assistant</option>
+          </select>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            className={inputClass}
+            aria-label="From date"
+          />
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            className={inputClass}
+            aria-label="To date"
+          />
+        </div>
+      )}
+
+      {isActive && (
+        <div className="mt-2 space-y-1">
+          {isSearching && results.length === 0 && (
+            <div className="px-2 py-1 text-xs text-zinc-500">Searching...</div>
+          )}
+          {!isSearching && results.length === 0 && (
+            <div className="px-2 py-1 text-xs text-zinc-500">No matches</div>
+          )}
+          {results.map(result => (
+            <button
+              key={`${result.chatId}-${result.messageId || 'title'}`}
+              onClick={() => onOpenResult(result.chatId, result.messageId)}
+              className={`block w-full text-left px-2 py-2 rounded-lg text-sm transition-colors ${
+                theme === 'dark' ? 'text-gray-300 hover:bg-zinc-800/50' : 'text-gray-800 hover:bg-purple-100/50'
+              }`}
+            >
+              <div className="truncate font-medium">{result.title}</div>
+              <div className="text-xs text-zinc-500 line-clamp-3">
+                {splitSnippet(result.snippet).map((part, index) => (
+                  part.highlighted
+                    ? <mark key={index} className="bg-purple-500/30 text-inherit rounded-sm">{part.text}</mark>
+                    : <span key={index}>{part.text}</span>
+                ))}
+              </div>
+              <div className="text-[10px] text-zinc-500 mt-1">
+                {result.messageId ? (result.source === 'user' ? 'You' : result.source) : 'Chat title'}
+                {' · '}
+                {new Date(result.created_at).toLocaleDateString()}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatSearch;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { WebSearchCitation } from '@/lib/openrouter';
+import { findCitationForHref, getCitationHost } from '@/lib/citations';
+
+interface CitationLinkProps extends React.AnchorHTMLAttributes<HTMLAnchorElement> {
+  citations: WebSearchCitation[];
+}
+
+// Links in an answer. Ones that point at a citation become a numbered footnote with a hover card.
+const CitationLink: React.FC<CitationLinkProps> = ({ citations, href, children, ...props }) => {
+  const citation = findCitationForHref(href, citations);
+  if (!citation) {
+    return <a href={href} target="_blank" rel="noopener noreferrer" {...props}>{children}</a>;
+  }
+
+  return (
+    <span className="relative inline-block group/citation">
+      <a
+        href={citation.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-xs align-super text-purple-400 hover:text-purple-300 no-underline"
+      >
+        [{citation.number}]
+      </a>
+      <span className="invisible opacity-0 group-hover/citation:visible group-hover/citation:opacity-100 transition-opacity duration-150 absolute bottom-full left-1/2 -translate-x-1/2 z-30 mb-1 w-72 p-3 rounded-lg border border-zinc-700 bg-zinc-800 shadow-lg text-left text-xs not-italic font-normal">
+        <span className="block font-medium text-gray-100 line-clamp-2">{citation.title || getCitationHost(citation.url)}</span>
+        <span className="block text-purple-400 truncate mt-0.5">{getCitationHost(citation.url)}</span>
+        {citation.text && (
+          <span className="block text-zinc-400 mt-1 line-clamp-4">{citation.text}</span>
+        )}
+      </span>
+    </span>
+  );
+};
+
+export default CitationLink;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { WebSearchCitation } from '@/lib/openrouter';
+import { getCitationHost } from '@/lib/citations';
+
+interface CitationListProps {
+  citations: WebSearchCitation[];
+}
+
+// Sources of a web-search answer, listed under it in footnote order
+const CitationList: React.FC<CitationListProps> = ({ citations }) => {
+  const sorted = [...citations].sort((a, b) => a.number - b.number);
+
+  return (
+    <div className="mt-3 pt-2 border-t border-zinc-700/50 text-xs">
+      <div className="text-zinc-500 mb-1">Sources</div>
+      <ol className="space-y-1">
+        {sorted.map(citation => (
+          <li key={citation.url} className="flex gap-2 min-w-0">
+            <span className="text-zinc-500">[{citation.number}]</span>
+            <a
+              href={citation.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="truncate text-purple-400 hover:text-purple-300"
+              title={citation.url}
+            >
+              {citation.title || citation.url}
+            </a>
+            <span className="text-zinc-500 whitespace-nowrap">{getCitationHost(citation.url)}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default CitationList;
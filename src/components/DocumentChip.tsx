@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { MessageAttachment } from '@/lib/attachments';
+import { formatCharCount } from '@/lib/documents';
+
+interface DocumentChipProps {
+  document: MessageAttachment;
+  // Shown in the composer, where the document can still be taken off the message
+  onRemove?: () => void;
+}
+
+// Characters of extracted text shown when the chip is expanded
+const PREVIEW_CHARS = 4000;
+
+const DocumentChip: React.FC<DocumentChipProps> = ({ document, onRemove }) => {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const text = document.text || '';
+
+  return (
+    <div className="max-w-md w-full rounded-lg border border-zinc-700 bg-zinc-800/50 text-xs">
+      <div className="flex items-center gap-2 px-3 py-2">
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex-1 min-w-0 flex items-center gap-2 text-left text-gray-300 hover:text-white"
+          aria-expanded={isExpanded}
+        >
+          <span>{isExpanded ? '▾' : '▸'}</span>
+          <span className="truncate">📄 {document.name}</span>
+          <span className="text-zinc-500 whitespace-nowrap">
+            {formatCharCount(text.length)}{document.truncated ? ', truncated' : ''}
+          </span>
+        </button>
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="text-zinc-500 hover:text-red-400"
+            aria-label={`Remove ${document.name}`}
+          >
+            ×
+          </button>
+        )}
+      </div>
+      {isExpanded && (
+        <pre className="max-h-64 overflow-auto px-3 pb-3 whitespace-pre-wrap break-words text-zinc-400 scrollbar-thin scrollbar-thumb-zinc-700 scrollbar-track-transparent">
+          {text.slice(0, PREVIEW_CHARS)}
+          {text.length > PREVIEW_CHARS && '\n…'}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+export default DocumentChip;
@@ -0,0 +1,122 @@
+import React from 'react';
+import Markdown from 'markdown-to-jsx';
+import { ChatMessage } from '@/lib/openrouter';
+import { formatMessageUsage } from '@/lib/usage';
+import { formatContextTrim } from '@/lib/contextWindow';
+import { hasGenerationParams, formatGenerationParams } from '@/lib/generationParams';
+import { formatWebSearchOptions } from '@/lib/webSearch';
+import ToolCallCard from './ToolCallCard';
+import CitationLink from './CitationLink';
+import CitationList from './CitationList';
+import { linkCitationMarkers } from '@/lib/citations';
+
+interface FanoutGroupProps {
+  messages: ChatMessage[];
+  streamingModels: string[];
+  onStop: (model: string) => void;
+  onSelect: (message: ChatMessage) => void;
+  formatModelName: (modelId: string) => string;
+}
+
+const FanoutGroup: React.FC<FanoutGroupProps> = ({
+  messages,
+  streamingModels,
+  onStop,
+  onSelect,
+  formatModelName,
+}) => {
+  // Fall back to the first answer when none has been picked yet
+  const hasSelection = messages.some(message => message.fanoutSelected);
+
+  return (
+    <div className="w-full animate-fade-in">
+      <div className="text-xs text-zinc-500 mb-1 px-1">
+        Comparing {messages.length} models
+      </div>
+      <div className="flex gap-3 overflow-x-auto pb-2 scrollbar-thin scrollbar-thumb-zinc-700 scrollbar-track-transparent">
+        {messages.map((message, index) => {
+          const model = message.model || '';
+          const isStreaming = streamingModels.includes(model);
+          const isSelected = hasSelection ? !!message.fanoutSelected : index === 0;
+
+          return (
+            <div
+              key={`${message.fanoutGroup}-${model}`}
+              data-message-id={message.messageid}
+              className={`chat-message-assistant group flex-1 min-w-[16rem] max-w-none flex flex-col ${
+                isSelected ? 'ring-1 ring-purple-500' : 'opacity-80'
+              }`}
+            >
+              <div className="flex items-center justify-between mb-2 text-xs text-zinc-500">
+                <span>AI ({formatModelName(model)})</span>
+                <div className="flex items-center gap-2">
+                  {isStreaming && (
+                    <button
+                      onClick={() => onStop(model)}
+                      className="text-red-400 hover:text-red-300 transition-colors"
+                      aria-label={`Stop ${model}`}
+                    >
+                      Stop
+                    </button>
+                  )}
+                  {!isStreaming && isSelected && (
+                    <span className="text-purple-400">Continues thread</span>
+                  )}
+                  {!isStreaming && !isSelected && message.messageid && (
+                    <button
+                      onClick={() => onSelect(message)}
+                      className="hover:text-white transition-colors"
+                    >
+                      Use this answer
+                    </button>
+                  )}
+                </div>
+              </div>
+              {message.contextTrim && (
+                <div className="text-xs text-amber-500/80 mb-2">
+                  {formatContextTrim(message.contextTrim)}
+                </div>
+              )}
+              {message.toolResults?.map((record, index) => (
+                <ToolCallCard key={index} record={record} />
+              ))}
+              <div className="message-content flex-1">
+                <Markdown
+                  options={{
+                    overrides: {
+                      p: {
+                        props: {
+                          style: { marginBottom: '0' }
+                        }
+                      },
+                      a: {
+                        component: CitationLink,
+                        props: { citations: message.citations || [] }
+                      },
+                    }
+                  }}
+                >
+                  {linkCitationMarkers(message.content, message.citations || []) || (isStreaming ? '...' : '')}
+                </Markdown>
+                {message.citations && message.citations.length > 0 && (
+                  <CitationList citations={message.citations} />
+                )}
+              </div>
+              {(message.usage || hasGenerationParams(message.generationParams) || message.webSearch) && (
+                <div className="text-xs text-zinc-500 mt-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                  {[
+                    message.usage && formatMessageUsage(message.usage),
+                    message.generationParams && formatGenerationParams(message.generationParams),
+                    message.webSearch && formatWebSearchOptions(message.webSearch),
+                  ].filter(Boolean).join(' · ')}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default FanoutGroup;
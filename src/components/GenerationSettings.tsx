@@ -0,0 +1,151 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  GenerationParams,
+  GENERATION_PARAM_FIELDS,
+  MAX_STOP_SEQUENCES,
+  cleanGenerationParams,
+  hasGenerationParams,
+} from '@/lib/generationParams';
+
+interface GenerationSettingsProps {
+  chatParams: GenerationParams | null;
+  defaultParams: GenerationParams | null;
+  disabled?: boolean;
+  onSaveChatParams: (params: GenerationParams | null) => Promise<void>;
+  onSaveDefaultParams: (params: GenerationParams | null) => Promise<void>;
+}
+
+// Form values are kept as text so half-typed numbers are not lost
+type Draft = Record<string, string>;
+
+function toDraft(params: GenerationParams | null): Draft {
+  const draft: Draft = { stop: (params?.stop || []).join('\n') };
+  GENERATION_PARAM_FIELDS.forEach(field => {
+    const value = params?.[field.key];
+    draft[field.key] = value === undefined ? '' : String(value);
+  });
+  return draft;
+}
+
+function fromDraft(draft: Draft): GenerationParams {
+  const raw: Record<string, unknown> = {
+    stop: draft.stop.split('\n').filter(sequence => sequence.length > 0),
+  };
+  GENERATION_PARAM_FIELDS.forEach(field => {
+    if (draft[field.key].trim() !== '') raw[field.key] = Number(draft[field.key]);
+  });
+  return cleanGenerationParams(raw);
+}
+
+const GenerationSettings: React.FC<GenerationSettingsProps> = ({
+  chatParams,
+  defaultParams,
+  disabled,
+  onSaveChatParams,
+  onSaveDefaultParams,
+}) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [draft, setDraft] = useState<Draft>(toDraft(null));
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // The chat's own settings replace the user's defaults as a whole
+  const activeParams = hasGenerationParams(chatParams) ? chatParams : defaultParams;
+  const label = hasGenerationParams(chatParams)
+    ? 'Chat parameters'
+    : hasGenerationParams(defaultParams) ? 'Default parameters' : 'Parameters';
+
+  // Close the panel when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const openPanel = () => {
+    setDraft(toDraft(activeParams));
+    setIsOpen(!isOpen);
+  };
+
+  const saveDraft = async (onSave: (params: GenerationParams | null) => Promise<void>) => {
+    const params = fromDraft(draft);
+    await onSave(hasGenerationParams(params) ? params : null);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={openPanel}
+        disabled={disabled}
+        className="hover:text-white cursor-pointer transition-colors disabled:opacity-50"
+        aria-label="Generation parameters"
+      >
+        {label}
+      </button>
+      {isOpen && (
+        <div className="fixed sm:absolute bottom-16 sm:bottom-full right-3 sm:right-0 z-20 w-[calc(100%-24px)] sm:w-72 mb-0 sm:mb-2 p-3 bg-zinc-800 border border-zinc-700 rounded-lg shadow-lg text-xs text-zinc-300">
+          <div className="grid grid-cols-2 gap-2">
+            {GENERATION_PARAM_FIELDS.map(field => (
+              <label key={field.key} className="flex flex-col gap-1">
+                <span>{field.label}</span>
+                <input
+                  type="number"
+                  min={field.min}
+                  max={field.max}
+                  step={field.step}
+                  value={draft[field.key]}
+                  onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+                  placeholder="Model default"
+                  className="px-2 py-1 bg-zinc-900 border border-zinc-700 rounded-md focus:outline-none focus:ring-1 focus:ring-purple-500"
+                />
+              </label>
+            ))}
+          </div>
+          <label className="flex flex-col gap-1 mt-2">
+            <span>Stop sequences (one per line, up to {MAX_STOP_SEQUENCES})</span>
+            <textarea
+              value={draft.stop}
+              onChange={(e) => setDraft({ ...draft, stop: e.target.value })}
+              rows={2}
+              className="px-2 py-1 bg-zinc-900 border border-zinc-700 rounded-md resize-none focus:outline-none focus:ring-1 focus:ring-purple-500"
+            />
+          </label>
+          <div className="flex flex-wrap justify-end mt-3 gap-2">
+            {hasGenerationParams(chatParams) && (
+              <button
+                onClick={async () => {
+                  await onSaveChatParams(null);
+                  setIsOpen(false);
+                }}
+                className="px-2 py-1 bg-zinc-700 hover:bg-zinc-600 rounded-md transition-colors"
+              >
+                Use defaults
+              </button>
+            )}
+            <button
+              onClick={() => saveDraft(onSaveDefaultParams)}
+              className="px-2 py-1 bg-zinc-700 hover:bg-zinc-600 rounded-md transition-colors"
+            >
+              Save as my defaults
+            </button>
+            <button
+              onClick={() => saveDraft(onSaveChatParams)}
+              className="px-2 py-1 bg-purple-700 hover:bg-purple-600 rounded-md transition-colors"
+            >
+              Save for this chat
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationSettings;
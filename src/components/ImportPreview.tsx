@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { ImportedConversation, ImportProgress, ImportReport, getImportTitle } from '@/lib/importers';
+
+interface ImportPreviewProps {
+  formatLabel: string;
+  conversations: ImportedConversation[];
+  // Set while the import runs
+  progress: ImportProgress | null;
+  // Set once the import has finished or been cancelled
+  report: ImportReport | null;
+  onConfirm: (conversations: ImportedConversation[]) => void;
+  // Closes the preview, or stops a running import
+  onCancel: () => void;
+}
+
+const ImportPreview: React.FC<ImportPreviewProps> = ({
+  formatLabel,
+  conversations,
+  progress,
+  report,
+  onConfirm,
+  onCancel,
+}) => {
+  // Everything is selected to begin with
+  const [selected, setSelected] = useState<boolean[]>(conversations.map(() => true));
+  const selectedCount = selected.filter(Boolean).length;
+  const isImporting = progress !== null && report === null;
+
+  const toggle = (index: number) => {
+    setSelected(prev => prev.map((value, i) => (i === index ? !value : value)));
+  };
+
+  const getModels = (conversation: ImportedConversation): string => {
+    const models = conversation.messages
+      .map(message => message.model)
+      .filter((model, index, all): model is string => !!model && all.indexOf(model) === index);
+    return models.join(', ');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4" style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}>
+      <div className="w-full max-w-lg max-h-[80vh] flex flex-col bg-zinc-800 border border-zinc-700 rounded-lg shadow-lg">
+        <div className="p-4 border-b border-zinc-700">
+          <h2 className="font-semibold">Import from {formatLabel}</h2>
+          <div className="text-xs text-zinc-500 mt-1">
+            {conversations.length} conversation{conversations.length === 1 ? '' : 's'} found. Nothing is saved until you import.
+          </div>
+        </div>
+        {report ? (
+          <div className="flex-1 overflow-y-auto p-4 text-sm scrollbar-thin scrollbar-thumb-zinc-700 scrollbar-track-transparent">
+            {report.error ? (
+              <div className="text-red-400">{report.error}</div>
+            ) : (
+              <div>
+                {report.cancelled ? 'Import cancelled. ' : ''}
+                Imported {report.imported} conversation{report.imported === 1 ? '' : 's'}
+                {report.skipped.length > 0 && `, skipped ${report.skipped.length}`}
+                {report.failed.length > 0 && `, ${report.failed.length} failed`}.
+              </div>
+            )}
+            {[...report.skipped, ...report.failed].map((item, index) => (
+              <div key={index} className="flex justify-between gap-2 mt-2 text-xs">
+                <span className="truncate">{item.title}</span>
+                <span className={index < report.skipped.length ? 'text-zinc-500' : 'text-red-400'}>{item.reason}</span>
+              </div>
+            ))}
+          </div>
+        ) : progress ? (
+          <div className="p-4 text-sm">
+            <div className="mb-2">Importing {progress.done} of {progress.total}...</div>
+            <div className="h-2 rounded bg-zinc-700 overflow-hidden">
+              <div
+                className="h-full bg-purple-500 transition-all duration-200"
+                style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-2 scrollbar-thin scrollbar-thumb-zinc-700 scrollbar-track-transparent">
+            {conversations.map((conversation, index) => (
+              <label
+                key={index}
+                className="flex items-start gap-2 px-2 py-2 rounded-md hover:bg-zinc-700/50 cursor-pointer text-sm"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected[index]}
+                  onChange={() => toggle(index)}
+                  className="mt-1 accent-purple-500"
+                />
+                <div className="min-w-0">
+                  <div className="truncate">{getImportTitle(conversation)}</div>
+                  <div className="text-xs text-zinc-500 truncate">
+                    {conversation.messages.length} message{conversation.messages.length === 1 ? '' : 's'}
+                    {conversation.createdAt && ` · ${new Date(conversation.createdAt).toLocaleDateString()}`}
+                    {getModels(conversation) && ` · ${getModels(conversation)}`}
+                  </div>
+                </div>
+              </label>
+            ))}
+          </div>
+        )}
+        <div className="flex justify-end gap-2 p-4 border-t border-zinc-700 text-sm">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 bg-zinc-700 hover:bg-zinc-600 rounded-md transition-colors"
+          >
+            {report ? 'Close' : isImporting ? 'Stop import' : 'Cancel'}
+          </button>
+          {!report && (
+            <button
+              onClick={() => onConfirm(conversations.filter((_, index) => selected[index]))}
+              disabled={isImporting || selectedCount === 0}
+              className="px-3 py-1 bg-purple-700 hover:bg-purple-600 rounded-md transition-colors disabled:opacity-50"
+            >
+              {isImporting ? 'Importing...' : `Import ${selectedCount}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreview;
@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { getAttachmentUrls } from '@/lib/supabase';
+import { MessageAttachment } from '@/lib/attachments';
+import DocumentChip from './DocumentChip';
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+}
+
+// Thumbnails of the images sent with a message, each opening the full image in a new tab,
+// followed by chips for attached documents
+const MessageAttachments: React.FC<MessageAttachmentsProps> = ({ attachments }) => {
+  const [urls, setUrls] = useState<string[]>([]);
+  const images = attachments.filter(attachment => attachment.type === 'image');
+  const documents = attachments.filter(attachment => attachment.type === 'document');
+
+  useEffect(() => {
+    let isCurrent = true;
+    getAttachmentUrls(images).then(resolved => {
+      if (isCurrent) setUrls(resolved);
+    });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [attachments]);
+
+  return (
+    <div className="flex flex-col items-end gap-2 mb-1 max-w-full">
+      {images.length > 0 && (
+        <div className="flex flex-wrap justify-end gap-2">
+          {images.map((attachment, index) => (
+            urls[index] ? (
+              <a key={index} href={urls[index]} target="_blank" rel="noopener noreferrer" title={attachment.name}>
+                <img
+                  src={urls[index]}
+                  alt={attachment.name}
+                  className="h-24 w-24 object-cover rounded-lg border border-zinc-700 hover:border-purple-500 transition-colors"
+                />
+              </a>
+            ) : (
+              <div
+                key={index}
+                className="h-24 w-24 flex items-center justify-center p-2 rounded-lg border border-zinc-700 text-[10px] text-zinc-500 text-center break-all"
+              >
+                {attachment.name}
+              </div>
+            )
+          ))}
+        </div>
+      )}
+      {documents.map((document, index) => (
+        <DocumentChip key={index} document={document} />
+      ))}
+    </div>
+  );
+};
+
+export default MessageAttachments;
@@ -1,5 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useTheme } from './ThemeContext';
+import ApiKeySettings from './ApiKeySettings';
+import { getMonthlyUsage } from '@/lib/supabase';
+import { UsageTotals, formatCost, formatTokens } from '@/lib/usage';
 
 interface ProfilePopupProps {
   user: any;
@@ -9,6 +12,7 @@ interface ProfilePopupProps {
 
 const ProfilePopup: React.FC<ProfilePopupProps> = ({ user, userDisplayName, onSignOut }) => {
   const [isOpen, setIsOpen] = useState(false);
+  const [monthlyUsage, setMonthlyUsage] = useState<UsageTotals | null>(null);
   const popupRef = useRef<HTMLDivElement>(null);
   const { theme } = useTheme();
 
@@ -26,6 +30,15 @@ const ProfilePopup: React.FC<ProfilePopupProps> = ({ user, userDisplayName, onSi
     };
   }, []);
 
+  // Refresh this month's usage on mount and whenever the popup opens
+  useEffect(() => {
+    const loadMonthlyUsage = async () => {
+      setMonthlyUsage(await getMonthlyUsage());
+    };
+
+    loadMonthlyUsage();
+  }, [isOpen]);
+
   // Get user initials for avatar
   const getUserInitials = () => {
     if (userDisplayName) return userDisplayName.charAt(0).toUpperCase();
@@ -46,7 +59,9 @@ const ProfilePopup: React.FC<ProfilePopupProps> = ({ user, userDisplayName, onSi
         </div>
         <div className="flex-1">
           <div className={`text-sm font-medium ${theme === 'dark' ? 'text-white' : 'text-gray-800'}`}>{userDisplayName || user.email || 'User'}</div>
-          <div className="text-xs text-gray-400">Free</div>
+          <div className="text-xs text-gray-400">
+            {monthlyUsage ? `${formatCost(monthlyUsage.cost)} this month` : 'Free'}
+          </div>
         </div>
       </div>
 
@@ -61,8 +76,15 @@ const ProfilePopup: React.FC<ProfilePopupProps> = ({ user, userDisplayName, onSi
             <div className={`text-xs ${theme === 'dark' ? 'text-gray-300' : 'text-gray-600'}`}>
               {user.email}
             </div>
-            <div className="text-xs text-gray-400 mt-1">Free Account</div>
+            {monthlyUsage ? (
+              <div className="text-xs text-gray-400 mt-1">
+                This month: {formatTokens(monthlyUsage.promptTokens)} in · {formatTokens(monthlyUsage.completionTokens)} out · {formatCost(monthlyUsage.cost)}
+              </div>
+            ) : (
+              <div className="text-xs text-gray-400 mt-1">Free Account</div>
+            )}
           </div>
+          <ApiKeySettings />
           <div className="p-2">
             <button
               onClick={onSignOut}
@@ -1,8 +1,25 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import ProfilePopup from './ProfilePopup';
 import ThemeToggle from './ThemeToggle';
-import { Chat, getUserChats } from '@/lib/supabase';
+import {
+  Chat,
+  getUserChats,
+  setChatPinned,
+  moveChatToFolder,
+  getChatFolders,
+  createChatFolder,
+  deleteChatFolder,
+  getChatTags,
+  createChatTag,
+  deleteChatTag,
+  setChatTag,
+} from '@/lib/supabase';
 import { useTheme } from './ThemeContext';
+import { formatCost, formatTokens } from '@/lib/usage';
+import { ExportFormat, EXPORT_FORMATS } from '@/lib/chatExport';
+import { ChatFolder, ChatListFilter, ChatTag } from '@/lib/chatOrganization';
+import ChatSearch from './ChatSearch';
+import SidebarFolders, { CHAT_DRAG_TYPE } from './SidebarFolders';
 
 interface SidebarProps {
   onNewChat: () => void;
@@ -14,6 +31,10 @@ interface SidebarProps {
   onSelectChat: (chatId: string) => void;
   onUpdateChatTitle?: (chatId: string, newTitle: string) => Promise<void>;
   onDeleteChat?: (chatId: string) => Promise<void>;
+  onExportChats?: (chatIds: string[] | null, format: ExportFormat) => Promise<void>;
+  onOpenSearchResult?: (chatId: string, messageId: string | null) => void;
+  // Keeps the parent's copy of a chat in step after pinning, moving or tagging it
+  onChatUpdated?: (chatId: string, changes: Partial<Chat>) => void;
   isMobileOpen?: boolean;
   onMobileClose?: () => void;
   loadChats?: () => Promise<void>; // Optional prop for initial chat loading
@@ -29,6 +50,9 @@ const Sidebar: React.FC<SidebarProps> = ({
   onSelectChat,
   onUpdateChatTitle,
   onDeleteChat,
+  onExportChats,
+  onOpenSearchResult,
+  onChatUpdated,
   isMobileOpen = false,
   onMobileClose,
   loadChats
@@ -43,6 +67,14 @@ const Sidebar: React.FC<SidebarProps> = ({
   
   const [editingChatId, setEditingChatId] = useState<string | null>(null);
   const [editingTitle, setEditingTitle] = useState<string>('');
+  // Chat whose export menu is open, or 'all' for the bulk export
+  const [exportMenuFor, setExportMenuFor] = useState<string | null>(null);
+  const [isSearchActive, setIsSearchActive] = useState<boolean>(false);
+  const [folders, setFolders] = useState<ChatFolder[]>([]);
+  const [tags, setTags] = useState<ChatTag[]>([]);
+  const [chatFilter, setChatFilter] = useState<ChatListFilter | null>(null);
+  // Chat whose tag menu is open
+  const [tagMenuFor, setTagMenuFor] = useState<string | null>(null);
   // Track animation state to handle dismiss animation properly
   const [isClosing, setIsClosing] = useState(false);
   
@@ -59,6 +91,9 @@ const Sidebar: React.FC<SidebarProps> = ({
   
   // Initialize with chats from props if available
   useEffect(() => {
+    // A folder or tag view pages through its own results instead; see below
+    if (chatFilter) return;
+
     if (initialChats.length > 0) {
       // Clear any previously loaded chats to prevent duplication
       setChats(initialChats);
@@ -69,7 +104,75 @@ const Sidebar: React.FC<SidebarProps> = ({
         loadMoreChats();
       }
     }
-  }, [initialChats, chats.length]); // Removing loadMoreChats from dependencies to avoid circular dependency
+  }, [initialChats, chats.length, chatFilter]); // Removing loadMoreChats from dependencies to avoid circular dependency
+
+  // Load folders and tags once
+  useEffect(() => {
+    const loadOrganization = async () => {
+      const [loadedFolders, loadedTags] = await Promise.all([getChatFolders(), getChatTags()]);
+      setFolders(loadedFolders);
+      setTags(loadedTags);
+    };
+
+    loadOrganization();
+  }, []);
+
+  // A tag made in another tab or device can reach a chat before this list has loaded it
+  useEffect(() => {
+    const knownTagIds = new Set(tags.map(tag => tag.tag_id));
+    if (initialChats.some(chat => (chat.tag_ids || []).some(tagId => !knownTagIds.has(tagId)))) {
+      getChatTags().then(setTags);
+    }
+  }, [initialChats]);
+
+  // Start the list over when switching between folders and tags
+  useEffect(() => {
+    setHasMore(true);
+    if (!chatFilter) {
+      setChats(initialChats);
+      setOffset(initialChats.length);
+      return;
+    }
+
+    let isCurrent = true;
+    const loadFilteredChats = async () => {
+      setChats([]);
+      setOffset(0);
+      setIsLoading(true);
+      const filteredChats = await getUserChats(50, 0, chatFilter);
+      if (isCurrent) {
+        setChats(filteredChats);
+        setOffset(filteredChats.length);
+        setHasMore(filteredChats.length > 0);
+        setIsLoading(false);
+      }
+    };
+
+    loadFilteredChats();
+    return () => {
+      isCurrent = false;
+    };
+  }, [chatFilter]);
+
+  // The parent's list changed, through this tab or a realtime update from elsewhere. A folder
+  // or tag view can't tell which of those changes concern it, so it reads the pages it shows again.
+  useEffect(() => {
+    if (!chatFilter) return;
+
+    let isCurrent = true;
+    const reloadFilteredChats = async () => {
+      const filteredChats = await getUserChats(Math.max(offset, 50), 0, chatFilter);
+      if (isCurrent) {
+        setChats(filteredChats);
+        setOffset(filteredChats.length);
+      }
+    };
+
+    reloadFilteredChats();
+    return () => {
+      isCurrent = false;
+    };
+  }, [initialChats]); // Switching filters loads the new view above
   
   // Load more chats when scrolling
   const loadMoreChats = useCallback(async () => {
@@ -78,7 +181,7 @@ const Sidebar: React.FC<SidebarProps> = ({
     setIsLoading(true);
     try {
       const limit = 50;
-      const newChats = await getUserChats(limit, offset);
+      const newChats = await getUserChats(limit, offset, chatFilter);
       
       if (newChats.length === 0) {
         setHasMore(false);
@@ -91,7 +194,7 @@ const Sidebar: React.FC<SidebarProps> = ({
     } finally {
       setIsLoading(false);
     }
-  }, [offset, isLoading, hasMore]);
+  }, [offset, isLoading, hasMore, chatFilter]);
   
   // Setup intersection observer for infinite scrolling
   useEffect(() => {
@@ -133,8 +236,9 @@ const Sidebar: React.FC<SidebarProps> = ({
     }
   }, [isMobileOpen]);
   
-  // Group chats by recency based on latest_chat_timestamp
+  // Pinned chats go on top; the rest are grouped by recency based on latest_chat_timestamp
   const groupedChats = {
+    pinned: [] as Chat[],
     recent: [] as Chat[],
     older: [] as Chat[]
   };
@@ -144,6 +248,11 @@ const Sidebar: React.FC<SidebarProps> = ({
   twoDaysAgo.setDate(twoDaysAgo.getDate() - 2);
   
   chats.forEach(chat => {
+    if (chat.pinned) {
+      groupedChats.pinned.push(chat);
+      return;
+    }
+
     // Use latest_chat_timestamp instead of created_at
     const chatTimestamp = new Date(chat.latest_chat_timestamp || chat.created_at);
     
@@ -162,6 +271,82 @@ const Sidebar: React.FC<SidebarProps> = ({
     }
   };
 
+  // Close sidebar on mobile when a search result is opened
+  const handleOpenSearchResult = (chatId: string, messageId: string | null) => {
+    if (!onOpenSearchResult) return;
+    onOpenSearchResult(chatId, messageId);
+    if (window.innerWidth < 768 && onMobileClose) {
+      handleClose();
+    }
+  };
+
+  // Apply a change to a chat locally and in the parent, dropping it if it leaves the current folder or tag
+  const updateChat = (chatId: string, changes: Partial<Chat>) => {
+    setChats(prevChats => prevChats
+      .map(chat => (chat.chatId === chatId ? { ...chat, ...changes } : chat))
+      .filter(chat => {
+        if (chat.chatId !== chatId || !chatFilter) return true;
+        return chatFilter.type === 'folder'
+          ? chat.folder_id === chatFilter.folderId
+          : (chat.tag_ids || []).includes(chatFilter.tagId);
+      }));
+    onChatUpdated?.(chatId, changes);
+  };
+
+  const handleTogglePin = async (chat: Chat) => {
+    if (await setChatPinned(chat.chatId, !chat.pinned)) {
+      updateChat(chat.chatId, { pinned: !chat.pinned });
+    }
+  };
+
+  const handleMoveChat = async (chatId: string, folderId: string | null) => {
+    if (await moveChatToFolder(chatId, folderId)) {
+      updateChat(chatId, { folder_id: folderId });
+    }
+  };
+
+  const handleToggleTag = async (chat: Chat, tagId: string) => {
+    const tagIds = chat.tag_ids || [];
+    const tagged = !tagIds.includes(tagId);
+    if (await setChatTag(chat.chatId, tagId, tagged)) {
+      updateChat(chat.chatId, { tag_ids: tagged ? [...tagIds, tagId] : tagIds.filter(id => id !== tagId) });
+    }
+  };
+
+  const handleCreateFolder = async (name: string) => {
+    const folder = await createChatFolder(name);
+    if (folder) {
+      setFolders(prev => [...prev, folder].sort((a, b) => a.name.localeCompare(b.name)));
+    }
+  };
+
+  const handleDeleteFolder = async (folderId: string) => {
+    if (await deleteChatFolder(folderId)) {
+      setFolders(prev => prev.filter(folder => folder.folder_id !== folderId));
+      setChats(prev => prev.map(chat => (chat.folder_id === folderId ? { ...chat, folder_id: null } : chat)));
+      if (chatFilter?.type === 'folder' && chatFilter.folderId === folderId) {
+        setChatFilter(null);
+      }
+    }
+  };
+
+  const handleCreateTag = async (name: string, color: string) => {
+    const tag = await createChatTag(name, color);
+    if (tag) {
+      setTags(prev => [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)));
+    }
+  };
+
+  const handleDeleteTag = async (tagId: string) => {
+    if (await deleteChatTag(tagId)) {
+      setTags(prev => prev.filter(tag => tag.tag_id !== tagId));
+      setChats(prev => prev.map(chat => ({ ...chat, tag_ids: (chat.tag_ids || []).filter(id => id !== tagId) })));
+      if (chatFilter?.type === 'tag' && chatFilter.tagId === tagId) {
+        setChatFilter(null);
+      }
+    }
+  };
+
   const handleDoubleClick = (chat: Chat) => {
     if (!onUpdateChatTitle) return;
     setEditingChatId(chat.chatId);
@@ -189,6 +374,36 @@ const Sidebar: React.FC<SidebarProps> = ({
     }
   };
 
+  const handleExport = async (format: ExportFormat) => {
+    if (!onExportChats || !exportMenuFor) return;
+    const chatIds = exportMenuFor === 'all' ? null : [exportMenuFor];
+    setExportMenuFor(null);
+    await onExportChats(chatIds, format);
+  };
+
+  const renderExportMenu = () => (
+    <div
+      className={`absolute right-0 top-full mt-1 z-30 w-40 rounded-md shadow-lg overflow-hidden text-sm ${
+        theme === 'dark' ? 'bg-zinc-800 border border-zinc-700' : 'bg-white border border-zinc-200'
+      }`}
+    >
+      {EXPORT_FORMATS.map(format => (
+        <button
+          key={format.id}
+          onClick={(e) => {
+            e.stopPropagation();
+            handleExport(format.id);
+          }}
+          className={`block w-full text-left px-3 py-2 transition-colors ${
+            theme === 'dark' ? 'text-gray-300 hover:bg-zinc-700' : 'text-gray-700 hover:bg-gray-100'
+          }`}
+        >
+          {format.label}
+        </button>
+      ))}
+    </div>
+  );
+
   const renderChatItem = (chat: Chat) => {
     const isEditing = chat.chatId === editingChatId;
     const isActive = activeChatId === chat.chatId;
@@ -211,9 +426,13 @@ const Sidebar: React.FC<SidebarProps> = ({
       );
     }
 
+    const chatTags = tags.filter(tag => (chat.tag_ids || []).includes(tag.tag_id));
+
     return (
       <div 
-        className={`group flex items-center justify-between px-2 py-2 text-sm rounded-lg 
+        draggable
+        onDragStart={(e) => e.dataTransfer.setData(CHAT_DRAG_TYPE, chat.chatId)}
+        className={`group relative flex items-center justify-between px-2 py-2 text-sm rounded-lg 
           ${theme === 'dark'
             ? 'hover:bg-zinc-800/50'
             : 'hover:bg-purple-100/50'
@@ -234,6 +453,99 @@ const Sidebar: React.FC<SidebarProps> = ({
         >
           {chat.title}
         </div>
+        {chatTags.map(tag => (
+          <span
+            key={tag.tag_id}
+            className="ml-1 w-2 h-2 rounded-full flex-shrink-0"
+            style={{ backgroundColor: tag.color }}
+            title={tag.name}
+          />
+        ))}
+        {!!chat.total_tokens && (
+          <span
+            className="ml-2 text-[10px] text-zinc-500 whitespace-nowrap"
+            title={`${formatTokens(chat.total_tokens)} tokens`}
+          >
+            {formatCost(chat.total_cost || 0)}
+          </span>
+        )}
+        <button
+          className={`${chat.pinned ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'} p-1 text-xs transition-all duration-200 ${
+            theme === 'dark'
+              ? 'text-zinc-500 hover:text-white'
+              : 'text-zinc-400 hover:text-gray-800'
+          }`}
+          onClick={(e) => {
+            e.stopPropagation();
+            handleTogglePin(chat);
+          }}
+          aria-label={chat.pinned ? 'Unpin chat' : 'Pin chat'}
+          title={chat.pinned ? 'Unpin' : 'Pin'}
+        >
+          📌
+        </button>
+        {tags.length > 0 && (
+          <button
+            className={`opacity-0 group-hover:opacity-100 p-1 text-xs transition-all duration-200 ${
+              theme === 'dark'
+                ? 'text-zinc-500 hover:text-white'
+                : 'text-zinc-400 hover:text-gray-800'
+            }`}
+            onClick={(e) => {
+              e.stopPropagation();
+              setTagMenuFor(tagMenuFor === chat.chatId ? null : chat.chatId);
+            }}
+            aria-label="Tag chat"
+            title="Tags"
+          >
+            #
+          </button>
+        )}
+        {tagMenuFor === chat.chatId && (
+          <div
+            className={`absolute right-0 top-full mt-1 z-30 w-40 rounded-md shadow-lg overflow-hidden text-sm ${
+              theme === 'dark' ? 'bg-zinc-800 border border-zinc-700' : 'bg-white border border-zinc-200'
+            }`}
+          >
+            {tags.map(tag => (
+              <label
+                key={tag.tag_id}
+                onClick={(e) => e.stopPropagation()}
+                className={`flex items-center gap-2 px-3 py-2 cursor-pointer ${
+                  theme === 'dark' ? 'text-gray-300 hover:bg-zinc-700' : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={(chat.tag_ids || []).includes(tag.tag_id)}
+                  onChange={() => handleToggleTag(chat, tag.tag_id)}
+                  className="accent-purple-500"
+                />
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                <span className="truncate">{tag.name}</span>
+              </label>
+            ))}
+          </div>
+        )}
+        {onExportChats && (
+          <button
+            className={`opacity-0 group-hover:opacity-100 p-1 transition-all duration-200 ${
+              theme === 'dark'
+                ? 'text-zinc-500 hover:text-white'
+                : 'text-zinc-400 hover:text-gray-800'
+            }`}
+            onClick={(e) => {
+              e.stopPropagation();
+              setExportMenuFor(exportMenuFor === chat.chatId ? null : chat.chatId);
+            }}
+            aria-label="Export chat"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
+            </svg>
+          </button>
+        )}
+        {exportMenuFor === chat.chatId && renderExportMenu()}
         {onDeleteChat && (
           <button
             className={`opacity-0 group-hover:opacity-100 p-1 transition-all duration-200 ${
@@ -312,11 +624,64 @@ const Sidebar: React.FC<SidebarProps> = ({
           >
             New Chat
           </button>
+          {onExportChats && chats.length > 0 && (
+            <div className="relative -mt-2">
+              <button
+                onClick={() => setExportMenuFor(exportMenuFor === 'all' ? null : 'all')}
+                className="w-full text-xs text-zinc-500 hover:text-purple-400 transition-colors"
+              >
+                Export all chats
+              </button>
+              {exportMenuFor === 'all' && renderExportMenu()}
+            </div>
+          )}
         </div>
 
         <div className="flex-1 overflow-y-auto px-2 py-2">
+          {onOpenSearchResult && (
+            <div className="-mx-2">
+              <ChatSearch onOpenResult={handleOpenSearchResult} onActiveChange={setIsSearchActive} />
+            </div>
+          )}
+
+          {!isSearchActive && (
+            <SidebarFolders
+              folders={folders}
+              tags={tags}
+              filter={chatFilter}
+              onFilterChange={setChatFilter}
+              onDropChat={handleMoveChat}
+              onCreateFolder={handleCreateFolder}
+              onDeleteFolder={handleDeleteFolder}
+              onCreateTag={handleCreateTag}
+              onDeleteTag={handleDeleteTag}
+            />
+          )}
+
+          {!isSearchActive && chatFilter && !isLoading && chats.length === 0 && (
+            <div className="px-2 py-1 text-xs text-zinc-500">
+              No chats here yet. Drag chats onto a folder or tag them from the list.
+            </div>
+          )}
+
+          {/* Pinned chats */}
+          {!isSearchActive && groupedChats.pinned.length > 0 && (
+            <div className="mb-4">
+              <div className="px-2 py-1 text-xs font-medium text-zinc-500">
+                Pinned
+              </div>
+              <div className="space-y-1 mt-1">
+                {groupedChats.pinned.map((chat, index) => (
+                  <div key={`pinned-${chat.chatId}-${index}`}>
+                    {renderChatItem(chat)}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Recent chats */}
-          {groupedChats.recent.length > 0 && (
+          {!isSearchActive && groupedChats.recent.length > 0 && (
             <div className="mb-4">
               <div className="px-2 py-1 text-xs font-medium text-zinc-500">
                 Recent
@@ -332,7 +697,7 @@ const Sidebar: React.FC<SidebarProps> = ({
           )}
 
           {/* Older chats */}
-          {groupedChats.older.length > 0 && (
+          {!isSearchActive && groupedChats.older.length > 0 && (
             <div className="mb-4">
               <div className="px-2 py-1 text-xs font-medium text-zinc-500">
                 Older
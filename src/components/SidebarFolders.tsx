@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { useTheme } from './ThemeContext';
+import { ChatFolder, ChatListFilter, ChatTag, TAG_COLORS } from '@/lib/chatOrganization';
+
+interface SidebarFoldersProps {
+  folders: ChatFolder[];
+  tags: ChatTag[];
+  filter: ChatListFilter | null;
+  onFilterChange: (filter: ChatListFilter | null) => void;
+  // A chat dragged onto a folder, or onto "All chats" (null) to take it out of its folder
+  onDropChat: (chatId: string, folderId: string | null) => void;
+  onCreateFolder: (name: string) => Promise<void>;
+  onDeleteFolder: (folderId: string) => Promise<void>;
+  onCreateTag: (name: string, color: string) => Promise<void>;
+  onDeleteTag: (tagId: string) => Promise<void>;
+}
+
+// Data type used when dragging a chat from the sidebar list
+export const CHAT_DRAG_TYPE = 'application/x-orchestrate-chat';
+
+const SidebarFolders: React.FC<SidebarFoldersProps> = ({
+  folders,
+  tags,
+  filter,
+  onFilterChange,
+  onDropChat,
+  onCreateFolder,
+  onDeleteFolder,
+  onCreateTag,
+  onDeleteTag,
+}) => {
+  const { theme } = useTheme();
+  const [newFolderName, setNewFolderName] = useState<string | null>(null);
+  const [newTagName, setNewTagName] = useState<string | null>(null);
+  const [newTagColor, setNewTagColor] = useState<string>(TAG_COLORS[0]);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const rowClass = (isActive: boolean, isDropTarget: boolean) => `group flex items-center justify-between px-2 py-1 text-sm rounded-lg cursor-pointer ${
+    isDropTarget
+      ? 'ring-1 ring-purple-500'
+      : ''
+  } ${
+    isActive
+      ? theme === 'dark' ? 'bg-zinc-800 text-white' : 'bg-purple-100 text-purple-900'
+      : theme === 'dark' ? 'text-gray-300 hover:bg-zinc-800/50' : 'text-gray-800 hover:bg-purple-100/50'
+  }`;
+
+  const inputClass = `w-full px-2 py-1 text-xs rounded-md focus:outline-none focus:ring-1 focus:ring-purple-500 ${
+    theme === 'dark' ? 'bg-zinc-900 border border-zinc-700 text-white' : 'bg-white border border-zinc-300 text-gray-800'
+  }`;
+
+  // Drop handlers shared by "All chats" (null) and each folder
+  const dropProps = (folderId: string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(CHAT_DRAG_TYPE)) return;
+      e.preventDefault();
+      setDropTarget(folderId || 'all');
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const chatId = e.dataTransfer.getData(CHAT_DRAG_TYPE);
+      if (chatId) onDropChat(chatId, folderId);
+    },
+  });
+
+  const submitFolder = async () => {
+    if (newFolderName?.trim()) {
+      await onCreateFolder(newFolderName.trim());
+    }
+    setNewFolderName(null);
+  };
+
+  const submitTag = async () => {
+    if (newTagName?.trim()) {
+      await onCreateTag(newTagName.trim(), newTagColor);
+    }
+    setNewTagName(null);
+  };
+
+  const deleteButton = (label: string, onDelete: () => void) => (
+    <button
+      className="opacity-0 group-hover:opacity-100 px-1 text-zinc-500 hover:text-red-400 transition-all duration-200"
+      onClick={(e) => {
+        e.stopPropagation();
+        if (window.confirm(`Delete ${label}? Its chats are kept.`)) {
+          onDelete();
+        }
+      }}
+      aria-label={`Delete ${label}`}
+    >
+      ×
+    </button>
+  );
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between px-2 py-1 text-xs font-medium text-zinc-500">
+        Folders
+        <button onClick={() => setNewFolderName('')} className="hover:text-purple-400" aria-label="New folder">+</button>
+      </div>
+      <div className="space-y-1 mt-1">
+        <div
+          className={rowClass(filter === null, dropTarget === 'all')}
+          onClick={() => onFilterChange(null)}
+          {...dropProps(null)}
+        >
+          All chats
+        </div>
+        {folders.map(folder => (
+          <div
+            key={folder.folder_id}
+            className={rowClass(filter?.type === 'folder' && filter.folderId === folder.folder_id, dropTarget === folder.folder_id)}
+            onClick={() => onFilterChange({ type: 'folder', folderId: folder.folder_id })}
+            {...dropProps(folder.folder_id)}
+          >
+            <span className="truncate">📁 {folder.name}</span>
+            {deleteButton(`folder "${folder.name}"`, () => onDeleteFolder(folder.folder_id))}
+          </div>
+        ))}
+        {newFolderName !== null && (
+          <input
+            type="text"
+            value={newFolderName}
+            onChange={(e) => setNewFolderName(e.target.value)}
+            onBlur={submitFolder}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                submitFolder();
+              } else if (e.key === 'Escape') {
+                setNewFolderName(null);
+              }
+            }}
+            placeholder="Folder name"
+            className={inputClass}
+            autoFocus
+          />
+        )}
+      </div>
+
+      <div className="flex items-center justify-between px-2 py-1 mt-3 text-xs font-medium text-zinc-500">
+        Tags
+        <button onClick={() => setNewTagName('')} className="hover:text-purple-400" aria-label="New tag">+</button>
+      </div>
+      <div className="flex flex-wrap gap-1 px-2 mt-1">
+        {tags.map(tag => {
+          const isActive = filter?.type === 'tag' && filter.tagId === tag.tag_id;
+          return (
+            <span
+              key={tag.tag_id}
+              onClick={() => onFilterChange(isActive ? null : { type: 'tag', tagId: tag.tag_id })}
+              className={`group inline-flex items-center px-2 py-0.5 rounded-full text-xs cursor-pointer border ${
+                isActive ? 'text-white' : theme === 'dark' ? 'text-gray-300' : 'text-gray-700'
+              }`}
+              style={{ borderColor: tag.color, backgroundColor: isActive ? tag.color : 'transparent' }}
+            >
+              {tag.name}
+              {deleteButton(`tag "${tag.name}"`, () => onDeleteTag(tag.tag_id))}
+            </span>
+          );
+        })}
+      </div>
+      {newTagName !== null && (
+        <div className="px-2 mt-2">
+          <input
+            type="text"
+            value={newTagName}
+            onChange={(e) => setNewTagName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                submitTag();
+              } else if (e.key === 'Escape') {
+                setNewTagName(null);
+              }
+            }}
+            placeholder="Tag name"
+            className={inputClass}
+            autoFocus
+          />
+          <div className="flex items-center gap-1 mt-1">
+            {TAG_COLORS.map(color => (
+              <button
+                key={color}
+                onClick={() => setNewTagColor(color)}
+                className={`w-4 h-4 rounded-full ${newTagColor === color ? 'ring-2 ring-offset-1 ring-purple-400' : ''}`}
+                style={{ backgroundColor: color }}
+                aria-label={`Tag color ${color}`}
+              />
+            ))}
+            <button onClick={submitTag} className="ml-auto text-xs text-zinc-500 hover:text-purple-400">Add</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SidebarFolders;
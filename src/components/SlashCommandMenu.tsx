@@ -0,0 +1,38 @@
+import React from 'react';
+import { SlashCommandSuggestion } from '@/lib/slashCommands';
+
+interface SlashCommandMenuProps {
+  suggestions: SlashCommandSuggestion[];
+  selectedIndex: number;
+  onSelect: (suggestion: SlashCommandSuggestion) => void;
+}
+
+// Autocomplete shown above the composer while a command is being typed
+const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({ suggestions, selectedIndex, onSelect }) => {
+  return (
+    <div className="absolute bottom-full left-0 right-0 z-20 mb-2 max-h-64 overflow-y-auto bg-zinc-800 border border-zinc-700 rounded-lg shadow-lg scrollbar-thin scrollbar-thumb-zinc-700 scrollbar-track-transparent">
+      {suggestions.map((suggestion, index) => (
+        <button
+          key={suggestion.value}
+          type="button"
+          // Keep focus in the textarea
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(suggestion)}
+          className={`flex w-full items-baseline gap-3 px-3 py-2 text-left text-sm transition-colors ${
+            index === selectedIndex ? 'bg-zinc-700 text-white' : 'text-gray-300 hover:bg-zinc-700/50'
+          }`}
+        >
+          <span className="font-mono truncate">{suggestion.label}</span>
+          {suggestion.description && (
+            <span className="text-xs text-zinc-500 truncate">{suggestion.description}</span>
+          )}
+        </button>
+      ))}
+      <div className="px-3 py-1 text-[10px] text-zinc-500 border-t border-zinc-700">
+        ↑↓ to choose · Tab or Enter to complete · Esc to close
+      </div>
+    </div>
+  );
+};
+
+export default SlashCommandMenu;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+
+interface SystemPromptBarProps {
+  chatPrompt: string | null;
+  defaultPrompt: string | null;
+  onSaveChatPrompt: (prompt: string | null) => Promise<void>;
+  onSaveDefaultPrompt: (prompt: string | null) => Promise<void>;
+}
+
+const SystemPromptBar: React.FC<SystemPromptBarProps> = ({
+  chatPrompt,
+  defaultPrompt,
+  onSaveChatPrompt,
+  onSaveDefaultPrompt,
+}) => {
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [draft, setDraft] = useState<string>('');
+
+  // The chat's own prompt wins over the user's default
+  const activePrompt = chatPrompt || defaultPrompt;
+  const source = chatPrompt ? 'Chat prompt' : defaultPrompt ? 'Default prompt' : 'No system prompt';
+
+  const startEditing = () => {
+    setDraft(activePrompt || '');
+    setIsEditing(true);
+  };
+
+  const saveDraft = async (onSave: (prompt: string | null) => Promise<void>) => {
+    await onSave(draft.trim() || null);
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="max-w-3xl mx-auto w-full px-3 md:px-4 pt-3">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Instructions the model should follow throughout this chat"
+          className="w-full bg-zinc-900 text-white text-sm p-2 rounded border border-zinc-700 min-h-[100px] resize-vertical focus:outline-none focus:ring-1 focus:ring-purple-500"
+          autoFocus
+        />
+        <div className="flex flex-wrap justify-end mt-2 gap-2 text-xs">
+          <button
+            onClick={() => setIsEditing(false)}
+            className="px-3 py-1 bg-zinc-700 hover:bg-zinc-600 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          {chatPrompt && (
+            <button
+              onClick={async () => {
+                await onSaveChatPrompt(null);
+                setIsEditing(false);
+              }}
+              className="px-3 py-1 bg-zinc-700 hover:bg-zinc-600 rounded-md transition-colors"
+            >
+              Use default
+            </button>
+          )}
+          <button
+            onClick={() => saveDraft(onSaveDefaultPrompt)}
+            className="px-3 py-1 bg-zinc-700 hover:bg-zinc-600 rounded-md transition-colors"
+          >
+            Save as my default
+          </button>
+          <button
+            onClick={() => saveDraft(onSaveChatPrompt)}
+            className="px-3 py-1 bg-purple-700 hover:bg-purple-600 rounded-md transition-colors"
+          >
+            Save for this chat
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto w-full px-3 md:px-4 pt-3">
+      <button
+        onClick={startEditing}
+        className="w-full flex items-center gap-2 text-left text-xs text-zinc-500 hover:text-white transition-colors"
+        title={activePrompt || 'Set a system prompt'}
+      >
+        <span className="font-medium whitespace-nowrap">{source}</span>
+        {activePrompt && <span className="truncate">{activePrompt}</span>}
+        <span className="ml-auto whitespace-nowrap">Edit</span>
+      </button>
+    </div>
+  );
+};
+
+export default SystemPromptBar;
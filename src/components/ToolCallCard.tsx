@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { CHAT_TOOLS, ToolCallRecord } from '@/lib/tools';
+
+interface ToolCallCardProps {
+  record: ToolCallRecord;
+}
+
+// Arguments pretty-printed when they are valid JSON, as sent otherwise
+function formatArguments(args: string): string {
+  try {
+    return JSON.stringify(JSON.parse(args), null, 2);
+  } catch (error) {
+    return args;
+  }
+}
+
+// One tool call and its result, collapsed to a single line until opened
+const ToolCallCard: React.FC<ToolCallCardProps> = ({ record }) => {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const tool = CHAT_TOOLS.find(candidate => candidate.name === record.call.function.name);
+
+  return (
+    <div className="w-full rounded-lg border border-zinc-700 bg-zinc-800/50 text-xs mb-2">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="flex w-full items-center gap-2 px-3 py-2 text-left text-gray-300 hover:text-white"
+        aria-expanded={isExpanded}
+      >
+        <span>{isExpanded ? '▾' : '▸'}</span>
+        <span>🔧 {tool?.label || record.call.function.name}</span>
+        <span className={`ml-auto truncate ${record.isError ? 'text-red-400' : 'text-zinc-500'}`}>
+          {record.result.length > 60 ? record.result.substring(0, 60) + '...' : record.result}
+        </span>
+      </button>
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-2">
+          <div>
+            <div className="text-zinc-500 mb-1">Arguments</div>
+            <pre className="whitespace-pre-wrap break-words text-zinc-300">{formatArguments(record.call.function.arguments)}</pre>
+          </div>
+          <div>
+            <div className="text-zinc-500 mb-1">Result</div>
+            <pre className={`max-h-64 overflow-auto whitespace-pre-wrap break-words scrollbar-thin scrollbar-thumb-zinc-700 scrollbar-track-transparent ${
+              record.isError ? 'text-red-400' : 'text-zinc-300'
+            }`}>
+              {formatArguments(record.result)}
+            </pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToolCallCard;
@@ -0,0 +1,177 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  ChatWebSearchSettings,
+  DEFAULT_WEB_SEARCH_OPTIONS,
+  MAX_SEARCH_RESULTS,
+  SEARCH_CONTEXT_SIZES,
+  SearchContextSize,
+  cleanWebSearchOptions,
+  parseDomainList,
+} from '@/lib/webSearch';
+
+interface WebSearchSettingsProps {
+  settings: ChatWebSearchSettings;
+  disabled?: boolean;
+  onSave: (settings: ChatWebSearchSettings) => Promise<void>;
+}
+
+// Form values are kept as text so half-typed numbers and domain lists are not lost
+interface Draft {
+  maxResults: string;
+  contextSize: string;
+  searchPrompt: string;
+  includeDomains: string;
+  excludeDomains: string;
+}
+
+function toDraft(settings: ChatWebSearchSettings): Draft {
+  const { options } = settings;
+  return {
+    maxResults: options.maxResults === undefined ? '' : String(options.maxResults),
+    contextSize: options.contextSize || '',
+    searchPrompt: options.searchPrompt || '',
+    includeDomains: (options.includeDomains || []).join('\n'),
+    excludeDomains: (options.excludeDomains || []).join('\n'),
+  };
+}
+
+function fromDraft(draft: Draft) {
+  return cleanWebSearchOptions({
+    maxResults: draft.maxResults.trim() === '' ? undefined : Number(draft.maxResults),
+    contextSize: draft.contextSize || undefined,
+    searchPrompt: draft.searchPrompt,
+    includeDomains: parseDomainList(draft.includeDomains),
+    excludeDomains: parseDomainList(draft.excludeDomains),
+  });
+}
+
+// Composer switch for searching the web with every message of this chat, plus its options
+const WebSearchSettings: React.FC<WebSearchSettingsProps> = ({ settings, disabled, onSave }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [draft, setDraft] = useState<Draft>(toDraft(settings));
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Close the panel when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const openPanel = () => {
+    setDraft(toDraft(settings));
+    setIsOpen(!isOpen);
+  };
+
+  const saveDraft = async () => {
+    await onSave({ enabled: true, options: fromDraft(draft) });
+    setIsOpen(false);
+  };
+
+  const inputClass = 'px-2 py-1 bg-zinc-900 border border-zinc-700 rounded-md focus:outline-none focus:ring-1 focus:ring-purple-500';
+
+  return (
+    <div className="relative flex items-center gap-1" ref={panelRef}>
+      <button
+        onClick={() => onSave({ ...settings, enabled: !settings.enabled })}
+        disabled={disabled}
+        className={`cursor-pointer transition-colors disabled:opacity-50 ${settings.enabled ? 'text-purple-400 hover:text-purple-300' : 'hover:text-white'}`}
+        aria-pressed={settings.enabled}
+        title={settings.enabled ? 'Web search is on for this chat' : 'Search the web with every message in this chat'}
+      >
+        🌐 Search {settings.enabled ? 'on' : 'off'}
+      </button>
+      <button
+        onClick={openPanel}
+        disabled={disabled}
+        className="hover:text-white cursor-pointer transition-colors disabled:opacity-50"
+        aria-label="Web search options"
+      >
+        ▾
+      </button>
+      {isOpen && (
+        <div className="fixed sm:absolute bottom-16 sm:bottom-full right-3 sm:right-0 z-20 w-[calc(100%-24px)] sm:w-72 mb-0 sm:mb-2 p-3 bg-zinc-800 border border-zinc-700 rounded-lg shadow-lg text-xs text-zinc-300">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="flex flex-col gap-1">
+              <span>Max results</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_SEARCH_RESULTS}
+                value={draft.maxResults}
+                onChange={(e) => setDraft({ ...draft, maxResults: e.target.value })}
+                placeholder={String(DEFAULT_WEB_SEARCH_OPTIONS.maxResults)}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>Search context</span>
+              <select
+                value={draft.contextSize}
+                onChange={(e) => setDraft({ ...draft, contextSize: e.target.value as SearchContextSize | '' })}
+                className={inputClass}
+              >
+                <option value="">Default</option>
+                {SEARCH_CONTEXT_SIZES.map(size => (
+                  <option key={size} value={size}>{size}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label className="flex flex-col gap-1 mt-2">
+            <span>Search prompt</span>
+            <textarea
+              value={draft.searchPrompt}
+              onChange={(e) => setDraft({ ...draft, searchPrompt: e.target.value })}
+              rows={2}
+              placeholder="How the results are introduced to the model"
+              className={`${inputClass} resize-none`}
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-2 mt-2">
+            <label className="flex flex-col gap-1">
+              <span>Prefer these domains</span>
+              <textarea
+                value={draft.includeDomains}
+                onChange={(e) => setDraft({ ...draft, includeDomains: e.target.value })}
+                rows={3}
+                placeholder="example.com"
+                className={`${inputClass} resize-none`}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span>Avoid these domains</span>
+              <textarea
+                value={draft.excludeDomains}
+                onChange={(e) => setDraft({ ...draft, excludeDomains: e.target.value })}
+                rows={3}
+                placeholder="example.org"
+                className={`${inputClass} resize-none`}
+              />
+            </label>
+          </div>
+          <p className="mt-1 text-zinc-500">
+            Best effort: domain filters reach the search engine, and engines without them ignore the lists.
+          </p>
+          <div className="flex justify-end mt-3">
+            <button
+              onClick={saveDraft}
+              className="px-2 py-1 bg-purple-700 hover:bg-purple-600 rounded-md transition-colors"
+            >
+              Search with these options
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WebSearchSettings;
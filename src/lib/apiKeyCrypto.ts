@@ -0,0 +1,15 @@
+import { decryptApiKeyWith, encryptApiKeyWith, parseEncryptionKey } from './apiKeyFormat.mjs';
+
+export { maskApiKey } from './apiKeyFormat.mjs';
+
+function getEncryptionKey(): Buffer {
+  return parseEncryptionKey(process.env.API_KEY_ENCRYPTION_KEY);
+}
+
+export function encryptApiKey(apiKey: string): string {
+  return encryptApiKeyWith(getEncryptionKey(), apiKey);
+}
+
+export function decryptApiKey(payload: string): string {
+  return decryptApiKeyWith(getEncryptionKey(), payload);
+}
@@ -0,0 +1,4 @@
+export function parseEncryptionKey(secret: string | undefined): Buffer;
+export function encryptApiKeyWith(encryptionKey: Buffer, apiKey: string): string;
+export function decryptApiKeyWith(encryptionKey: Buffer, payload: string): string;
+export function maskApiKey(apiKey: string): string;
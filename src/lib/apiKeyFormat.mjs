@@ -0,0 +1,51 @@
+// The stored API key format, shared by the app (through apiKeyCrypto.ts) and the
+// scripts in scripts/, so both read and write the same ciphertext.
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+
+// API keys are stored as AES-256-GCM ciphertext: "v1:<iv>:<tag>:<ciphertext>", base64 parts
+const ALGORITHM = 'aes-256-gcm';
+const FORMAT_VERSION = 'v1';
+
+// Turn API_KEY_ENCRYPTION_KEY into the 32-byte key, or throw saying what is wrong
+export function parseEncryptionKey(secret) {
+  if (!secret) {
+    throw new Error('API_KEY_ENCRYPTION_KEY is not set');
+  }
+
+  const key = Buffer.from(secret, 'base64');
+  if (key.length !== 32) {
+    throw new Error('API_KEY_ENCRYPTION_KEY must be 32 bytes, base64 encoded');
+  }
+
+  return key;
+}
+
+export function encryptApiKeyWith(encryptionKey, apiKey) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, encryptionKey, iv);
+  const ciphertext = Buffer.concat([cipher.update(apiKey, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [FORMAT_VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+export function decryptApiKeyWith(encryptionKey, payload) {
+  const [version, iv, tag, ciphertext] = payload.split(':');
+  if (version !== FORMAT_VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Unrecognized encrypted API key format');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, encryptionKey, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+// Show enough of a key to recognize it without revealing it, e.g. "sk-or-v1-…a1b2"
+export function maskApiKey(apiKey) {
+  const prefix = apiKey.match(/^(sk-[a-z]+-v\d+-|sk-[a-z]+-|sk-)/i)?.[0] || '';
+  return `${prefix}…${apiKey.slice(-4)}`;
+}
@@ -0,0 +1,85 @@
+import { getAccessToken } from './supabase';
+
+export interface ApiKeyStatus {
+  hasKey: boolean;
+  preview: string | null;
+}
+
+export interface ApiKeyTestResult {
+  valid: boolean;
+  error?: string;
+  label?: string;
+}
+
+// Call the API key route as the signed-in user
+async function callApiKeyRoute(method: string, body?: { apiKey: string }): Promise<Response> {
+  const accessToken = await getAccessToken();
+  if (!accessToken) {
+    throw new Error('User not authenticated');
+  }
+
+  return fetch('/api/api-key', {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken}`
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
+
+// Get whether the user has a key set, with a masked preview
+export async function getApiKeyStatus(): Promise<ApiKeyStatus | null> {
+  try {
+    const response = await callApiKeyRoute('GET');
+    if (!response.ok) throw new Error(await response.text());
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error getting API key status:', error);
+    return null;
+  }
+}
+
+// Validate and store a new key; returns an error message when it is rejected
+export async function saveApiKey(apiKey: string): Promise<{ status: ApiKeyStatus | null; error?: string }> {
+  try {
+    const response = await callApiKeyRoute('PUT', { apiKey });
+    const body = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      return { status: null, error: body?.error || 'Failed to save API key' };
+    }
+
+    return { status: body };
+  } catch (error) {
+    console.error('Error saving API key:', error);
+    return { status: null, error: 'Failed to save API key' };
+  }
+}
+
+// Check a key with the provider without saving it; tests the stored key when none is given
+export async function testApiKey(apiKey?: string): Promise<ApiKeyTestResult> {
+  try {
+    const response = await callApiKeyRoute('POST', apiKey ? { apiKey } : undefined);
+    if (!response.ok) throw new Error(await response.text());
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error testing API key:', error);
+    return { valid: false, error: 'Failed to test API key' };
+  }
+}
+
+// Remove the user's stored key
+export async function removeApiKey(): Promise<boolean> {
+  try {
+    const response = await callApiKeyRoute('DELETE');
+    if (!response.ok) throw new Error(await response.text());
+
+    return true;
+  } catch (error) {
+    console.error('Error removing API key:', error);
+    return false;
+  }
+}
@@ -0,0 +1,74 @@
+import { OpenRouterModel } from './openrouter';
+
+// A file attached to a user message, stored on the message row
+export interface MessageAttachment {
+  type: 'image' | 'document';
+  name: string;
+  mimeType: string;
+  size: number;
+  // Object path in the Storage bucket
+  path?: string;
+  // The file itself as a data URL, when attachments are kept inline instead of in Storage
+  dataUrl?: string;
+  // Text extracted from a document, which is what gets sent to the model
+  text?: string;
+  // Set when the text was cut short, at extraction or to fit the model
+  truncated?: boolean;
+}
+
+// An image picked in the composer that has not been sent yet
+export interface PendingAttachment {
+  file: File;
+  previewUrl: string;
+}
+
+// OpenAI-style content parts for messages that carry more than text
+export type MessageContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export const ATTACHMENT_BUCKET = 'attachments';
+
+// "inline" keeps images in the message row as data URLs, for setups without Supabase Storage
+export const ATTACHMENT_STORAGE = process.env.NEXT_PUBLIC_ATTACHMENT_STORAGE === 'inline' ? 'inline' : 'supabase';
+
+// Signed URLs only need to outlive one request and one page view
+export const ATTACHMENT_URL_TTL_SECONDS = 60 * 60;
+
+export const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 4;
+
+// Why an image can't be attached, or null when it can
+export function validateImageFile(file: File): string | null {
+  if (!IMAGE_MIME_TYPES.includes(file.type)) {
+    return `${file.name} is not a PNG, JPEG, WebP or GIF image.`;
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return `${file.name} is larger than ${MAX_IMAGE_BYTES / 1024 / 1024} MB.`;
+  }
+  return null;
+}
+
+// Models without catalog data are given the benefit of the doubt
+export function supportsImageInput(model: OpenRouterModel | undefined): boolean {
+  const modalities = model?.architecture?.input_modalities;
+  return !modalities || modalities.includes('image');
+}
+
+export function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// Text first, then one part per image the provider can fetch
+export function buildContentParts(text: string, imageUrls: string[]): MessageContentPart[] {
+  return [
+    ...(text ? [{ type: 'text' as const, text }] : []),
+    ...imageUrls.map(url => ({ type: 'image_url' as const, image_url: { url } })),
+  ];
+}
@@ -0,0 +1,47 @@
+import { ChatCompletionChunk } from './openrouter';
+
+// Read an OpenAI-style event stream ("data: <chunk>" lines), handing over each chunk.
+// Resolves at "data: [DONE]", at the end of the body, or once the signal aborts.
+export async function readChatCompletionStream(
+  body: ReadableStream<Uint8Array>,
+  onChunk: (chunk: ChatCompletionChunk) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  if (signal) {
+    signal.addEventListener('abort', () => {
+      reader.cancel().catch(console.error);
+    }, { once: true });
+  }
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Process complete SSE lines
+    let lineEnd;
+    while ((lineEnd = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, lineEnd).trim();
+      buffer = buffer.slice(lineEnd + 1);
+
+      if (!line.startsWith('data: ')) continue;
+
+      const data = line.slice(6);
+      if (data === '[DONE]') {
+        reader.cancel().catch(console.error);
+        return;
+      }
+
+      try {
+        onChunk(JSON.parse(data) as ChatCompletionChunk);
+      } catch (e) {
+        // Ignore comments or malformed JSON
+      }
+    }
+  }
+}
@@ -0,0 +1,292 @@
+import { ChatExportData, ChatMessageDB } from './supabase';
+import { WebSearchCitation } from './openrouter';
+import { getActivePath } from './messageTree';
+import { formatGenerationParams, hasGenerationParams } from './generationParams';
+
+export type ExportFormat = 'markdown' | 'json' | 'html' | 'openrouter';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'json', label: 'JSON (lossless)', extension: 'json', mimeType: 'application/json' },
+  { id: 'html', label: 'HTML page', extension: 'html', mimeType: 'text/html' },
+  { id: 'openrouter', label: 'OpenRouter', extension: 'json', mimeType: 'application/json' },
+];
+
+// The OpenRouter chatroom export shape, which the importer reads back in
+export interface OpenRouterExport {
+  version: string;
+  characters: {
+    [key: string]: {
+      model: string;
+      modelInfo: any;
+      id: string;
+      updatedAt: string;
+      description: string;
+    }
+  };
+  messages: {
+    [key: string]: {
+      characterId: string;
+      content: string;
+      id: string;
+      updatedAt: string;
+      isGenerating?: boolean;
+      metadata?: any;
+      citations?: any[];
+      files?: any[];
+      attachments?: any[];
+    }
+  }
+}
+
+// Our own schema: every chat with all of its branches and settings
+export interface OrchestrateExport {
+  format: 'orchestrate-chat';
+  version: 1;
+  exported_at: string;
+  chats: ChatExportData[];
+}
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+interface TranscriptMessage {
+  message: ChatMessageDB;
+  content: string;
+  citations: WebSearchCitation[];
+}
+
+const CITATIONS_HEADING = '\n\n**Citations:**\n';
+
+// Web search answers are stored with their citations appended as "[n] title: url" lines
+export function splitCitations(content: string): { content: string; citations: WebSearchCitation[] } {
+  const headingAt = content.lastIndexOf(CITATIONS_HEADING);
+  if (headingAt === -1) return { content, citations: [] };
+
+  const citations: WebSearchCitation[] = [];
+  content.slice(headingAt + CITATIONS_HEADING.length).split('\n').forEach(line => {
+    const match = line.match(/^\[(\d+)\] (.*): (\S+)$/);
+    if (match) {
+      citations.push({ number: Number(match[1]), title: match[2], url: match[3] });
+    }
+  });
+
+  return citations.length > 0
+    ? { content: content.slice(0, headingAt), citations }
+    : { content, citations: [] };
+}
+
+// The active thread of a chat, keeping only the chosen answer of each fan-out group
+function getTranscript(data: ChatExportData): TranscriptMessage[] {
+  const path = getActivePath(data.messages, data.chat.active_leaf);
+
+  return path
+    .filter(message => {
+      if (!message.fanout_group) return true;
+      const group = path.filter(m => m.fanout_group === message.fanout_group);
+      const selected = group.find(m => m.fanout_selected) || group[0];
+      return selected.messageid === message.messageid;
+    })
+    // Older answers only have their sources in the text
+    .map(message => (message.citations && message.citations.length > 0
+      ? { message, content: message.message, citations: message.citations }
+      : { message, ...splitCitations(message.message) }));
+}
+
+function formatTimestamp(timestamp: string | undefined): string {
+  return timestamp ? new Date(timestamp).toLocaleString() : '';
+}
+
+function speakerName(message: ChatMessageDB): string {
+  if (message.source === 'user') return 'User';
+  if (message.source === 'system') return 'System';
+  return `Assistant (${message.source})`;
+}
+
+function toMarkdown(chats: ChatExportData[]): string {
+  return chats.map(data => {
+    const lines = [`# ${data.chat.title}`, ''];
+    lines.push(`_Created ${formatTimestamp(data.chat.created_at)}_`, '');
+    if (data.chat.system_prompt) {
+      lines.push(`> **System prompt:** ${data.chat.system_prompt.replace(/\n/g, '\n> ')}`, '');
+    }
+
+    getTranscript(data).forEach(({ message, content, citations }) => {
+      lines.push(`## ${speakerName(message)} · ${formatTimestamp(message.created_at)}`, '', content, '');
+      if (citations.length > 0) {
+        lines.push('**Citations:**', '');
+        citations.forEach(citation => lines.push(`${citation.number}. [${citation.title}](${citation.url})`));
+        lines.push('');
+      }
+      if (hasGenerationParams(message.generation_params)) {
+        lines.push(`_${formatGenerationParams(message.generation_params!)}_`, '');
+      }
+    });
+
+    return lines.join('\n');
+  }).join('\n---\n\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const HTML_STYLES = `
+  body { font-family: system-ui, sans-serif; background: #18181b; color: #e4e4e7; margin: 0; padding: 2rem 1rem; }
+  main { max-width: 48rem; margin: 0 auto; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  .meta { color: #71717a; font-size: 0.8rem; margin-bottom: 1.5rem; }
+  .message { border-radius: 0.5rem; padding: 0.75rem 1rem; margin-bottom: 1rem; background: #27272a; }
+  .message.user { background: #3b0764; margin-left: 3rem; }
+  .message.system { background: #1c1917; border: 1px solid #44403c; }
+  .speaker { color: #a1a1aa; font-size: 0.75rem; margin-bottom: 0.5rem; }
+  .content { white-space: pre-wrap; line-height: 1.5; }
+  .citations { font-size: 0.8rem; margin: 0.75rem 0 0; padding-left: 1.25rem; }
+  a { color: #c084fc; }
+  hr { border: none; border-top: 1px solid #3f3f46; margin: 2rem 0; }
+`;
+
+// Only web links become anchors; other schemes such as javascript: stay plain text
+function isWebUrl(url: string): boolean {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function toHtml(chats: ChatExportData[]): string {
+  const body = chats.map(data => {
+    const messages = getTranscript(data).map(({ message, content, citations }) => {
+      const role = message.source === 'user' ? 'user' : message.source === 'system' ? 'system' : 'assistant';
+      const citationList = citations.length > 0
+        ? `<ol class="citations">${citations.map(citation =>
+            isWebUrl(citation.url)
+              ? `<li><a href="${escapeHtml(citation.url)}">${escapeHtml(citation.title)}</a></li>`
+              : `<li>${escapeHtml(citation.title)} (${escapeHtml(citation.url)})</li>`
+          ).join('')}</ol>`
+        : '';
+      return `<div class="message ${role}">
+  <div class="speaker">${escapeHtml(speakerName(message))} · ${escapeHtml(formatTimestamp(message.created_at))}</div>
+  <div class="content">${escapeHtml(content)}</div>${citationList}
+</div>`;
+    }).join('\n');
+
+    const systemPrompt = data.chat.system_prompt
+      ? `<div class="message system"><div class="speaker">System prompt</div><div class="content">${escapeHtml(data.chat.system_prompt)}</div></div>\n`
+      : '';
+
+    return `<section>
+<h1>${escapeHtml(data.chat.title)}</h1>
+<div class="meta">Created ${escapeHtml(formatTimestamp(data.chat.created_at))}</div>
+${systemPrompt}${messages}
+</section>`;
+  }).join('\n<hr>\n');
+
+  const title = chats.length === 1 ? chats[0].chat.title : 'Orchestrate chats';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+${body}
+</main>
+</body>
+</html>
+`;
+}
+
+export function toOpenRouterExport(data: ChatExportData): OpenRouterExport {
+  const exported: OpenRouterExport = { version: '1.0', characters: {}, messages: {} };
+
+  getTranscript(data).forEach(({ message, content, citations }) => {
+    const updatedAt = message.created_at || data.chat.created_at;
+    let characterId = 'USER';
+
+    if (message.source !== 'user') {
+      // One character per model, as OpenRouter's chatroom keeps them
+      characterId = `char-${message.source}`;
+      if (!exported.characters[characterId]) {
+        exported.characters[characterId] = {
+          model: message.source,
+          modelInfo: {},
+          id: characterId,
+          updatedAt,
+          description: '',
+        };
+      }
+    }
+
+    const id = message.messageid || `msg-${Object.keys(exported.messages).length}`;
+    exported.messages[id] = {
+      characterId,
+      content,
+      id,
+      updatedAt,
+      citations: citations.length > 0 ? citations.map(({ url, title }) => ({ url, title })) : undefined,
+    };
+  });
+
+  return exported;
+}
+
+function slugify(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 50) || 'chat';
+}
+
+// Render one or more chats in the chosen format. Bulk OpenRouter exports are an array of conversations.
+export function buildExport(chats: ChatExportData[], format: ExportFormat): ExportFile {
+  const { extension, mimeType } = EXPORT_FORMATS.find(f => f.id === format)!;
+  const basename = chats.length === 1
+    ? slugify(chats[0].chat.title)
+    : `orchestrate-chats-${new Date().toISOString().slice(0, 10)}`;
+
+  let content: string;
+  switch (format) {
+    case 'markdown':
+      content = toMarkdown(chats);
+      break;
+    case 'html':
+      content = toHtml(chats);
+      break;
+    case 'openrouter':
+      content = JSON.stringify(chats.length === 1 ? toOpenRouterExport(chats[0]) : chats.map(toOpenRouterExport), null, 2);
+      break;
+    default: {
+      const exported: OrchestrateExport = {
+        format: 'orchestrate-chat',
+        version: 1,
+        exported_at: new Date().toISOString(),
+        chats,
+      };
+      content = JSON.stringify(exported, null, 2);
+    }
+  }
+
+  return { filename: `${basename}${format === 'openrouter' ? '.openrouter' : ''}.${extension}`, mimeType, content };
+}
+
+// Save an export through the browser's download prompt
+export function downloadExport(file: ExportFile): void {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,27 @@
+export interface ChatFolder {
+  folder_id: string;
+  name: string;
+  created_at?: string;
+}
+
+export interface ChatTag {
+  tag_id: string;
+  name: string;
+  color: string;
+}
+
+// Narrow the sidebar's chat list to one folder or one tag
+export type ChatListFilter =
+  | { type: 'folder'; folderId: string }
+  | { type: 'tag'; tagId: string };
+
+export const TAG_COLORS = [
+  '#a855f7', // purple
+  '#3b82f6', // blue
+  '#22c55e', // green
+  '#eab308', // yellow
+  '#f97316', // orange
+  '#ef4444', // red
+  '#ec4899', // pink
+  '#71717a', // gray
+];
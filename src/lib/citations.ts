@@ -0,0 +1,60 @@
+import { Annotation, WebSearchCitation } from './openrouter';
+
+// Footnote links written into the content for plain [n] markers
+const CITATION_HREF_PREFIX = '#citation-';
+
+// Add a chunk's citations to those collected so far. Providers send either url_citation
+// annotations, numbered here in order of arrival, or ready-made citations; a URL seen before is skipped.
+export function mergeCitations(
+  citations: WebSearchCitation[],
+  annotations: Annotation[] = [],
+  citationsDelta: WebSearchCitation[] = []
+): WebSearchCitation[] {
+  const merged = [...citations];
+
+  annotations.forEach(annotation => {
+    if (annotation.type !== 'url_citation' || !annotation.url_citation) return;
+    const { title, url, content } = annotation.url_citation;
+    if (!merged.some(citation => citation.url === url)) {
+      merged.push({ title, url, text: content, number: merged.length + 1 });
+    }
+  });
+
+  citationsDelta.forEach(citation => {
+    if (!merged.some(existing => existing.url === citation.url)) {
+      merged.push(citation);
+    }
+  });
+
+  return merged;
+}
+
+// Turn [n] markers that refer to a known citation into links, so the renderer can show them
+// as footnotes. Markers that are already links, like [1](https://...), are left alone.
+export function linkCitationMarkers(content: string, citations: WebSearchCitation[]): string {
+  if (citations.length === 0) return content;
+
+  return content.replace(/\[(\d+)\](?![(\[])/g, (marker, number) =>
+    citations.some(citation => citation.number === Number(number))
+      ? `[${number}](${CITATION_HREF_PREFIX}${number})`
+      : marker
+  );
+}
+
+// The citation a rendered link points at: a footnote link, or a link straight to a cited URL
+export function findCitationForHref(href: string | undefined, citations: WebSearchCitation[]): WebSearchCitation | undefined {
+  if (!href) return undefined;
+  if (href.startsWith(CITATION_HREF_PREFIX)) {
+    const number = Number(href.slice(CITATION_HREF_PREFIX.length));
+    return citations.find(citation => citation.number === number);
+  }
+  return citations.find(citation => citation.url === href);
+}
+
+export function getCitationHost(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch (error) {
+    return url;
+  }
+}
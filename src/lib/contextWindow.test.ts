@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest';
+import { estimateTokens, fitConversation, fitDocuments } from './contextWindow';
+import { ChatMessage } from './openrouter';
+
+// The summarize strategy streams through the app's API; these tests never get that far
+vi.mock('./openrouter', () => ({ getChatCompletionStream: vi.fn() }));
+
+// A message estimated at exactly this many tokens: four characters each plus four of overhead
+function createMessage(role: ChatMessage['role'], tokens: number, label: string = role): ChatMessage {
+  return { role, content: label.padEnd((tokens - 4) * 4, '.') };
+}
+
+function createTurns(count: number, tokensPerMessage: number): ChatMessage[] {
+  return Array.from({ length: count }, (_, index) => [
+    createMessage('user', tokensPerMessage, `question ${index}`),
+    createMessage('assistant', tokensPerMessage, `answer ${index}`),
+  ]).flat();
+}
+
+// A context window of 1000 tokens leaves a prompt budget of 750
+const CONTEXT_LENGTH = 1000;
+
+describe('estimateTokens', () => {
+  it('counts four characters per token plus overhead per message', () => {
+    expect(estimateTokens([{ role: 'user', content: 'x'.repeat(40) }])).toBe(14);
+    expect(estimateTokens([{ role: 'user', content: 'x' }])).toBe(5);
+  });
+
+  it('adds document text and a flat allowance per image', () => {
+    const message: ChatMessage = {
+      role: 'user',
+      content: '',
+      attachments: [
+        { type: 'document', name: 'a.txt', mimeType: 'text/plain', size: 400, text: 'x'.repeat(400) },
+        { type: 'image', name: 'a.png', mimeType: 'image/png', size: 1, dataUrl: 'data:image/png;base64,' },
+      ],
+    };
+    expect(estimateTokens([message])).toBe(100 + 4 + 1000);
+  });
+});
+
+describe('fitConversation', () => {
+  it('sends a conversation that fits the budget exactly as it is', () => {
+    const messages = createTurns(3, 125);
+    expect(estimateTokens(messages)).toBe(750);
+
+    const fitted = fitConversation(messages, CONTEXT_LENGTH, 'drop-middle');
+    expect(fitted.messages).toBe(messages);
+    expect(fitted.dropped).toEqual([]);
+  });
+
+  it('drops the oldest turn once the budget is one token over', () => {
+    const messages = [...createTurns(2, 125), createMessage('user', 126), createMessage('assistant', 125)];
+
+    const fitted = fitConversation(messages, CONTEXT_LENGTH, 'drop-oldest');
+    expect(fitted.messages).toEqual(messages.slice(2));
+    expect(fitted.dropped).toEqual(messages.slice(0, 2));
+  });
+
+  it('always keeps the system prompt and the latest turn', () => {
+    const system = createMessage('system', 100);
+    const messages = [system, ...createTurns(3, 400)];
+
+    const fitted = fitConversation(messages, CONTEXT_LENGTH, 'drop-oldest');
+    expect(fitted.messages).toEqual([system, ...messages.slice(-2)]);
+    expect(fitted.dropped).toHaveLength(4);
+  });
+
+  it('holds keep-last-turns to its turn count even without a context length', () => {
+    const messages = createTurns(5, 10);
+
+    const fitted = fitConversation(messages, undefined, 'drop-oldest', 2);
+    expect(fitted.messages).toEqual(messages.slice(-4));
+    expect(fitted.dropped).toEqual(messages.slice(0, 6));
+  });
+
+  it('keeps the opening turn when dropping the middle', () => {
+    const messages = createTurns(4, 100);
+
+    const fitted = fitConversation(messages, CONTEXT_LENGTH, 'drop-middle');
+    expect(fitted.messages).toEqual([...messages.slice(0, 2), ...messages.slice(-4)]);
+    expect(fitted.dropped).toEqual(messages.slice(2, 4));
+  });
+
+  it('leaves room for the summary when summarizing', () => {
+    const messages = createTurns(8, 50);
+
+    expect(fitConversation(messages, CONTEXT_LENGTH, 'drop-oldest').messages).toHaveLength(14);
+    expect(fitConversation(messages, CONTEXT_LENGTH, 'summarize').messages).toHaveLength(2);
+  });
+
+  it('does not drop a single turn, however long', () => {
+    const messages = createTurns(1, 2000);
+    expect(fitConversation(messages, CONTEXT_LENGTH, 'drop-oldest').messages).toBe(messages);
+  });
+});
+
+describe('fitDocuments', () => {
+  function createDocumentMessage(length: number): ChatMessage {
+    return {
+      role: 'user',
+      content: 'Read this',
+      attachments: [{ type: 'document', name: 'notes.txt', mimeType: 'text/plain', size: length, text: 'x'.repeat(length) }],
+    };
+  }
+
+  it('cuts documents down to half of the prompt budget', () => {
+    const [fitted] = fitDocuments([createDocumentMessage(3000)], CONTEXT_LENGTH);
+
+    expect(fitted.attachments?.[0].text).toHaveLength(1500);
+    expect(fitted.attachments?.[0].truncated).toBe(true);
+  });
+
+  it('returns the messages unchanged when the documents fit', () => {
+    const messages = [createDocumentMessage(1000)];
+    expect(fitDocuments(messages, CONTEXT_LENGTH)).toBe(messages);
+  });
+
+  it('leaves documents alone when the context length is unknown', () => {
+    const messages = [createDocumentMessage(100000)];
+    expect(fitDocuments(messages, undefined)).toBe(messages);
+  });
+});
@@ -0,0 +1,216 @@
+import { ChatMessage, OpenRouterModel, getChatCompletionStream } from './openrouter';
+import { truncateDocuments } from './documents';
+
+export type ContextStrategy = 'drop-oldest' | 'drop-middle' | 'summarize';
+
+export const CONTEXT_STRATEGIES: { id: ContextStrategy; label: string }[] = [
+  { id: 'drop-oldest', label: 'Keep last turns' },
+  { id: 'drop-middle', label: 'Drop middle turns' },
+  { id: 'summarize', label: 'Summarize older turns' },
+];
+
+// Turns "Keep last turns" sends when the user hasn't picked a number
+export const DEFAULT_KEEP_TURNS = 20;
+
+export interface ContextTrim {
+  strategy: ContextStrategy;
+  droppedMessages: number;
+  summarized: boolean;
+}
+
+export interface PreparedConversation {
+  messages: ChatMessage[];
+  trim?: ContextTrim;
+}
+
+// Cheap model used to condense older turns for the summarize strategy
+const SUMMARY_MODEL = process.env.NEXT_PUBLIC_SUMMARY_MODEL || 'google/gemini-2.0-flash-001';
+
+// Room kept for the summary itself so it does not push the request over budget
+const SUMMARY_TOKENS = 600;
+
+// Flat allowance per attached image; providers charge roughly this for a typical screenshot
+const IMAGE_TOKENS = 1000;
+
+// Attached documents may fill at most this share of the prompt budget
+const DOCUMENT_BUDGET_SHARE = 0.5;
+
+function getDocumentChars(message: ChatMessage): number {
+  return (message.attachments || []).reduce((total, attachment) => total + (attachment.text?.length || 0), 0);
+}
+
+function getImageCount(message: ChatMessage): number {
+  return (message.attachments || []).filter(attachment => attachment.type === 'image').length;
+}
+
+// Rough token estimate: about four characters per token plus per-message overhead
+export function estimateTokens(messages: ChatMessage[]): number {
+  return messages.reduce((total, message) =>
+    total + Math.ceil((message.content.length + getDocumentChars(message)) / 4) + 4 + getImageCount(message) * IMAGE_TOKENS, 0);
+}
+
+// Leave room for the answer: a quarter of the window, at most 4k tokens
+function getPromptBudget(contextLength: number): number {
+  return contextLength - Math.min(4096, Math.floor(contextLength / 4));
+}
+
+// Split a conversation into turns, each starting at a user message
+function groupTurns(messages: ChatMessage[]): ChatMessage[][] {
+  const turns: ChatMessage[][] = [];
+  messages.forEach(message => {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  });
+  return turns;
+}
+
+// Cut attached documents down to their share of the context window, so a long file
+// truncates itself instead of pushing every earlier turn out of the conversation
+export function fitDocuments(messages: ChatMessage[], contextLength: number | undefined): ChatMessage[] {
+  if (!contextLength) return messages;
+
+  const maxChars = Math.floor(getPromptBudget(contextLength) * DOCUMENT_BUDGET_SHARE) * 4;
+  const documents = messages.flatMap(message => (message.attachments || []).filter(attachment => attachment.type === 'document'));
+  const fitted = truncateDocuments(documents, maxChars);
+  if (fitted === documents) return messages;
+
+  return messages.map(message => {
+    if (!message.attachments?.some(attachment => attachment.type === 'document')) return message;
+    return {
+      ...message,
+      attachments: message.attachments.map(attachment =>
+        attachment.type === 'document' ? fitted[documents.indexOf(attachment)] : attachment
+      ),
+    };
+  });
+}
+
+// Drop whole turns until the conversation fits the model's context window.
+// Keep-last-turns also holds it to its last keepTurns turns, even when it would fit.
+// Leading system messages and the latest turn are always kept.
+export function fitConversation(
+  messages: ChatMessage[],
+  contextLength: number | undefined,
+  strategy: ContextStrategy,
+  keepTurns: number = DEFAULT_KEEP_TURNS
+): { messages: ChatMessage[]; dropped: ChatMessage[] } {
+  const firstNonSystem = messages.findIndex(message => message.role !== 'system');
+  const systemMessages = firstNonSystem === -1 ? messages : messages.slice(0, firstNonSystem);
+  const turns = groupTurns(firstNonSystem === -1 ? [] : messages.slice(firstNonSystem));
+
+  const fits = !contextLength || estimateTokens(messages) <= getPromptBudget(contextLength);
+  const maxTurns = strategy === 'drop-oldest' ? Math.max(1, keepTurns) : turns.length;
+  if ((fits && turns.length <= maxTurns) || turns.length < 2) {
+    return { messages, dropped: [] };
+  }
+
+  // Drop-middle keeps the opening turn, which usually frames the whole chat
+  const head = strategy === 'drop-middle' ? turns.slice(0, 1) : [];
+  const candidates = turns.slice(head.length);
+
+  let budget = contextLength
+    ? getPromptBudget(contextLength)
+      - estimateTokens(systemMessages)
+      - estimateTokens(head.flat())
+      - (strategy === 'summarize' ? SUMMARY_TOKENS : 0)
+    : Infinity;
+
+  // Keep the most recent turns that fit, always including the latest one
+  const tail: ChatMessage[][] = [];
+  for (let i = candidates.length - 1; i >= 0 && tail.length < maxTurns; i--) {
+    const cost = estimateTokens(candidates[i]);
+    if (tail.length > 0 && cost > budget) break;
+    tail.unshift(candidates[i]);
+    budget -= cost;
+  }
+
+  const dropped = candidates.slice(0, candidates.length - tail.length).flat();
+  return {
+    messages: [...systemMessages, ...head.flat(), ...tail.flat()],
+    dropped,
+  };
+}
+
+// Condense older turns into a short summary with the cheap summary model
+export async function summarizeMessages(messages: ChatMessage[]): Promise<string | null> {
+  const transcript = messages
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n\n');
+
+  return new Promise(resolve => {
+    let summary = '';
+    let settled = false;
+
+    getChatCompletionStream(
+      [
+        {
+          role: 'system',
+          content: 'Summarize the following conversation in a few short paragraphs. Keep names, decisions, facts and open questions that later messages may refer to.',
+        },
+        { role: 'user', content: transcript },
+      ],
+      SUMMARY_MODEL,
+      (chunk) => {
+        summary += chunk.choices[0]?.delta?.content || '';
+      },
+      () => {
+        if (settled) return;
+        settled = true;
+        resolve(summary.trim() || null);
+      },
+      (error) => {
+        if (settled) return;
+        settled = true;
+        console.error('Error summarizing conversation:', error);
+        resolve(null);
+      },
+    );
+  });
+}
+
+// Trim a conversation to fit the model before sending it, using the chosen strategy
+export async function prepareConversation(
+  messages: ChatMessage[],
+  model: OpenRouterModel | undefined,
+  strategy: ContextStrategy,
+  keepTurns: number = DEFAULT_KEEP_TURNS
+): Promise<PreparedConversation> {
+  const fitted = fitConversation(fitDocuments(messages, model?.context_length), model?.context_length, strategy, keepTurns);
+  if (fitted.dropped.length === 0) {
+    return { messages: fitted.messages };
+  }
+
+  if (strategy === 'summarize') {
+    const summary = await summarizeMessages(fitted.dropped);
+    if (summary) {
+      const firstNonSystem = fitted.messages.findIndex(message => message.role !== 'system');
+      const insertAt = firstNonSystem === -1 ? fitted.messages.length : firstNonSystem;
+      const summaryMessage: ChatMessage = {
+        role: 'system',
+        content: `Summary of the earlier part of this conversation:\n\n${summary}`,
+      };
+
+      return {
+        messages: [...fitted.messages.slice(0, insertAt), summaryMessage, ...fitted.messages.slice(insertAt)],
+        trim: { strategy, droppedMessages: fitted.dropped.length, summarized: true },
+      };
+    }
+  }
+
+  // Summarizing failed or was not requested: the older turns are simply left out
+  return {
+    messages: fitted.messages,
+    trim: { strategy, droppedMessages: fitted.dropped.length, summarized: false },
+  };
+}
+
+export function formatContextTrim(trim: ContextTrim): string {
+  const count = `${trim.droppedMessages} earlier message${trim.droppedMessages === 1 ? '' : 's'}`;
+  if (trim.summarized) return `Context trimmed to fit the model: summarized ${count}`;
+  return trim.strategy === 'drop-oldest'
+    ? `Context trimmed to the last turns: left out ${count}`
+    : `Context trimmed to fit the model: left out ${count}`;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { truncateDocuments } from './documents';
+import { MessageAttachment } from './attachments';
+
+function createDocument(name: string, length: number): MessageAttachment {
+  return { type: 'document', name, mimeType: 'text/plain', size: length, text: 'x'.repeat(length) };
+}
+
+describe('truncateDocuments', () => {
+  it('returns the same array when everything fits', () => {
+    const documents = [createDocument('a.txt', 100), createDocument('b.txt', 200)];
+    expect(truncateDocuments(documents, 300)).toBe(documents);
+  });
+
+  it('shares the room in proportion to each document', () => {
+    const [short, long] = truncateDocuments([createDocument('a.txt', 1000), createDocument('b.txt', 3000)], 400);
+
+    expect(short.text).toHaveLength(100);
+    expect(long.text).toHaveLength(300);
+    expect(short.truncated).toBe(true);
+    expect(long.truncated).toBe(true);
+  });
+
+  it('never goes over the budget', () => {
+    const fitted = truncateDocuments([createDocument('a.txt', 333), createDocument('b.txt', 333), createDocument('c.txt', 334)], 100);
+    const total = fitted.reduce((sum, document) => sum + (document.text?.length || 0), 0);
+    expect(total).toBeLessThanOrEqual(100);
+  });
+
+  it('leaves documents without text alone', () => {
+    const empty: MessageAttachment = { type: 'document', name: 'empty.txt', mimeType: 'text/plain', size: 0 };
+    const [fittedEmpty, fitted] = truncateDocuments([empty, createDocument('b.txt', 500)], 50);
+
+    expect(fittedEmpty).toBe(empty);
+    expect(fitted.text).toHaveLength(50);
+  });
+
+  it('does not change the documents it was given', () => {
+    const documents = [createDocument('a.txt', 500)];
+    truncateDocuments(documents, 10);
+    expect(documents[0].text).toHaveLength(500);
+    expect(documents[0].truncated).toBeUndefined();
+  });
+});
@@ -0,0 +1,98 @@
+import { MessageAttachment } from './attachments';
+
+// Extracted text is capped so one document can't bloat the message row
+export const MAX_DOCUMENT_CHARS = 500000;
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+
+// Plain-text formats whose MIME type browsers often leave empty or report as octet-stream
+const TEXT_EXTENSIONS = [
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'log', 'json', 'jsonl', 'yaml', 'yml', 'toml', 'xml', 'html', 'css',
+  'ini', 'env', 'sql', 'sh', 'js', 'jsx', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'c', 'h', 'cpp',
+  'hpp', 'cs', 'php', 'swift', 'scala', 'lua', 'r', 'diff', 'patch',
+];
+
+export const DOCUMENT_ACCEPT = ['.pdf', ...TEXT_EXTENSIONS.map(extension => `.${extension}`)].join(',');
+
+function getExtension(filename: string): string {
+  return filename.includes('.') ? filename.split('.').pop()!.toLowerCase() : '';
+}
+
+function isPdf(file: File): boolean {
+  return file.type === 'application/pdf' || getExtension(file.name) === 'pdf';
+}
+
+export function isDocumentFile(file: File): boolean {
+  return isPdf(file)
+    || file.type.startsWith('text/')
+    || file.type === 'application/json'
+    || TEXT_EXTENSIONS.includes(getExtension(file.name));
+}
+
+// PDF.js is large, so it is only loaded once a PDF is attached
+async function extractPdfText(file: File): Promise<string> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join(''));
+    }
+    return pages.join('\n\n');
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Read a document into an attachment carrying its text; throws with a message fit for the user
+export async function extractDocument(file: File): Promise<MessageAttachment> {
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB.`);
+  }
+
+  const text = (isPdf(file) ? await extractPdfText(file) : await file.text()).trim();
+  if (!text) {
+    throw new Error(`No text found in ${file.name}. Scanned PDFs are not supported.`);
+  }
+  if (text.includes('\u0000')) {
+    throw new Error(`${file.name} looks like a binary file.`);
+  }
+
+  return {
+    type: 'document',
+    name: file.name,
+    mimeType: file.type || 'text/plain',
+    size: file.size,
+    text: text.slice(0, MAX_DOCUMENT_CHARS),
+    truncated: text.length > MAX_DOCUMENT_CHARS || undefined,
+  };
+}
+
+// The document as it is placed in the prompt, fenced so the model can tell it apart from the question
+export function formatDocumentBlock(document: MessageAttachment): string {
+  const note = document.truncated ? ' (truncated; only the beginning is included)' : '';
+  return `----- BEGIN DOCUMENT: ${document.name}${note} -----\n${document.text || ''}\n----- END DOCUMENT: ${document.name} -----`;
+}
+
+// Share documents' room between them in proportion to their length, marking the ones that were cut
+export function truncateDocuments(documents: MessageAttachment[], maxChars: number): MessageAttachment[] {
+  const totalChars = documents.reduce((total, document) => total + (document.text?.length || 0), 0);
+  if (totalChars <= maxChars) return documents;
+
+  return documents.map(document => {
+    const length = document.text?.length || 0;
+    const allowed = Math.floor(maxChars * (length / totalChars));
+    return length > allowed
+      ? { ...document, text: document.text!.slice(0, allowed), truncated: true }
+      : document;
+  });
+}
+
+export function formatCharCount(chars: number): string {
+  return chars >= 1000 ? `${Math.round(chars / 1000)}k chars` : `${chars} chars`;
+}
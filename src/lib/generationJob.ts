@@ -0,0 +1,153 @@
+import {
+  AuthenticatedRequest,
+  GenerationUpdate,
+  finishGeneration,
+  getModelProviderConfig,
+  saveGenerationProgress,
+} from './supabaseServer';
+import { ChatCompletionRequest, getProvider } from './providers';
+import { ChatTool, MAX_TOOL_ROUNDS, ToolCall, ToolCallRecord, getToolDefinitions, mergeToolCallDeltas, runToolCall } from './tools';
+import { WebSearchCitation } from './openrouter';
+import { mergeCitations } from './citations';
+import { readChatCompletionStream } from './chatCompletionStream';
+import { ChunkUsage, buildMessageUsage } from './usage';
+import { createWriteBuffer } from './writeBuffer';
+import {
+  GENERATION_FLUSH_CHARS,
+  GENERATION_FLUSH_MS,
+  GENERATION_HEARTBEAT_MS,
+  GENERATION_MAX_MS,
+  formatStoppedContent,
+} from './generations';
+
+function addUsage(total: ChunkUsage | undefined, usage: ChunkUsage): ChunkUsage {
+  if (!total) return usage;
+  return {
+    prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+    completion_tokens: total.completion_tokens + usage.completion_tokens,
+    cost: typeof total.cost === 'number' || typeof usage.cost === 'number'
+      ? (total.cost || 0) + (usage.cost || 0)
+      : undefined,
+  };
+}
+
+// Write an answer into a claimed message row, independent of the browser that asked for it.
+// Runs the tools the model calls and feeds the results back until it answers without one.
+// Progress is saved as it streams; the job stops when the row is marked aborted, and
+// fails once it runs past GENERATION_MAX_MS.
+export async function runGenerationJob(
+  auth: AuthenticatedRequest,
+  messageId: string,
+  request: ChatCompletionRequest,
+  tools: ChatTool[],
+  timeZone?: string
+): Promise<void> {
+  const controller = new AbortController();
+  const conversation = [...request.messages];
+  const definitions = getToolDefinitions(tools);
+
+  let content = '';
+  let citations: WebSearchCitation[] = [];
+  const toolResults: ToolCallRecord[] = [];
+  let totalUsage: ChunkUsage | undefined;
+
+  const progressBuffer = createWriteBuffer<GenerationUpdate>(async (update) => {
+    if (!await saveGenerationProgress(auth, messageId, update)) {
+      controller.abort();
+    }
+  }, {
+    intervalMs: GENERATION_FLUSH_MS,
+    maxPendingSize: GENERATION_FLUSH_CHARS,
+    size: update => update.content.length,
+  });
+  const saveProgress = () => {
+    progressBuffer.update({ content, status: 'running', toolResults: [...toolResults], citations });
+  };
+
+  // Keeps the row fresh while the model or a tool is quiet, and notices stops meanwhile
+  const heartbeat = setInterval(saveProgress, GENERATION_HEARTBEAT_MS);
+  let timedOut = false;
+  const deadline = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, GENERATION_MAX_MS);
+  let finalUpdate: GenerationUpdate;
+
+  try {
+    const { provider: providerId, baseUrl, pricing } = await getModelProviderConfig(auth, request.model);
+    const provider = getProvider(providerId);
+
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const body: ChatCompletionRequest = { ...request, messages: conversation };
+      if (definitions.length > 0) body.tools = definitions;
+      // Search once; later rounds only add tool results
+      if (round > 0) {
+        delete body.plugins;
+        delete body.web_search_options;
+      }
+
+      const upstream = await provider.streamChatCompletion(body, { auth, baseUrl, signal: controller.signal });
+      if (!upstream.ok || !upstream.body) {
+        const error = await upstream.text();
+        throw new Error(`Model provider error: ${error || 'Response body is null'}`);
+      }
+
+      let toolCalls: ToolCall[] = [];
+      let roundContent = '';
+
+      await readChatCompletionStream(upstream.body, (chunk) => {
+        const delta = chunk.choices[0]?.delta;
+        toolCalls = mergeToolCallDeltas(toolCalls, delta?.tool_calls);
+        roundContent += delta?.content || '';
+        content += delta?.content || '';
+        citations = mergeCitations(citations, delta?.annotations, delta?.citations);
+        if (chunk.usage) totalUsage = addUsage(totalUsage, chunk.usage);
+        saveProgress();
+      }, controller.signal);
+
+      if (controller.signal.aborted) throw new Error('Request aborted');
+      // Out of rounds: whatever the model said last is the answer
+      if (toolCalls.length === 0 || round === MAX_TOOL_ROUNDS) break;
+
+      conversation.push({ role: 'assistant', content: roundContent, tool_calls: toolCalls });
+      for (const call of toolCalls) {
+        if (controller.signal.aborted) throw new Error('Request aborted');
+
+        const record = await runToolCall(call, tools, { supabase: auth.supabase, timeZone });
+        toolResults.push(record);
+        saveProgress();
+        progressBuffer.flush();
+        conversation.push({ role: 'tool', content: record.result, tool_call_id: call.id });
+      }
+    }
+
+    finalUpdate = {
+      content,
+      status: 'completed',
+      usage: totalUsage ? buildMessageUsage(totalUsage, pricing ? { id: request.model, name: request.model, pricing } : undefined) : undefined,
+      toolResults,
+      citations,
+    };
+  } catch (error) {
+    const status = controller.signal.aborted && !timedOut ? 'aborted' : 'failed';
+    const failure = timedOut ? new Error(`The generation took longer than ${GENERATION_MAX_MS / 1000} seconds`) : error;
+    if (status === 'failed') {
+      console.error(`Error generating message ${messageId}:`, failure);
+    }
+
+    finalUpdate = {
+      content: formatStoppedContent(content, status),
+      status,
+      error: status === 'failed' ? (failure instanceof Error ? failure.message : String(failure)) : undefined,
+      toolResults,
+      citations,
+    };
+  } finally {
+    clearInterval(heartbeat);
+    clearTimeout(deadline);
+  }
+
+  // The final write must not be overtaken by a buffered one
+  await progressBuffer.close();
+  await finishGeneration(auth, messageId, finalUpdate);
+}
@@ -0,0 +1,74 @@
+// Sampling settings passed through to the provider with each completion request.
+// Unset fields are left out so the model's own defaults apply.
+export interface GenerationParams {
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+  stop?: string[];
+  seed?: number;
+}
+
+export type NumericGenerationParam = Exclude<keyof GenerationParams, 'stop'>;
+
+export const GENERATION_PARAM_FIELDS: {
+  key: NumericGenerationParam;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  integer?: boolean;
+}[] = [
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1 },
+  { key: 'top_p', label: 'Top P', min: 0, max: 1, step: 0.05 },
+  { key: 'max_tokens', label: 'Max tokens', min: 1, max: 1000000, step: 1, integer: true },
+  { key: 'frequency_penalty', label: 'Frequency penalty', min: -2, max: 2, step: 0.1 },
+  { key: 'presence_penalty', label: 'Presence penalty', min: -2, max: 2, step: 0.1 },
+  { key: 'seed', label: 'Seed', min: 0, max: 2147483647, step: 1, integer: true },
+];
+
+// OpenAI-style APIs accept at most four stop sequences
+export const MAX_STOP_SEQUENCES = 4;
+
+// Keep only well-formed values inside each field's range; anything else falls back to the model default
+export function cleanGenerationParams(params: unknown): GenerationParams {
+  if (!params || typeof params !== 'object') return {};
+
+  const source = params as Record<string, unknown>;
+  const cleaned: GenerationParams = {};
+
+  GENERATION_PARAM_FIELDS.forEach(field => {
+    const value = source[field.key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) return;
+    if (value < field.min || value > field.max) return;
+    if (field.integer && !Number.isInteger(value)) return;
+    cleaned[field.key] = value;
+  });
+
+  if (Array.isArray(source.stop)) {
+    const stop = source.stop
+      .filter((sequence): sequence is string => typeof sequence === 'string' && sequence.length > 0)
+      .slice(0, MAX_STOP_SEQUENCES);
+    if (stop.length > 0) cleaned.stop = stop;
+  }
+
+  return cleaned;
+}
+
+export function hasGenerationParams(params: GenerationParams | null | undefined): boolean {
+  return !!params && Object.keys(params).length > 0;
+}
+
+// Short summary for message footers, e.g. "temperature 0.7 · seed 42"
+export function formatGenerationParams(params: GenerationParams): string {
+  const parts = GENERATION_PARAM_FIELDS
+    .filter(field => params[field.key] !== undefined)
+    .map(field => `${field.label.toLowerCase()} ${params[field.key]}`);
+
+  if (params.stop && params.stop.length > 0) {
+    parts.push(`stop ${params.stop.map(sequence => JSON.stringify(sequence)).join(', ')}`);
+  }
+
+  return parts.join(' · ');
+}
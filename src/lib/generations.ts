@@ -0,0 +1,37 @@
+import { WebSearchCitation } from './openrouter';
+import { MessageUsage } from './usage';
+import { ToolCallRecord } from './tools/types';
+
+export type GenerationStatus = 'running' | 'completed' | 'failed' | 'aborted';
+
+// A running job saves its progress at most this often...
+export const GENERATION_FLUSH_MS = 500;
+// ...unless this many characters have arrived since the last save
+export const GENERATION_FLUSH_CHARS = 2000;
+// It saves at least this often, even while the model or a tool is quiet
+export const GENERATION_HEARTBEAT_MS = 10000;
+// A running row not touched for this long belongs to a job that died
+export const GENERATION_STALE_MS = 60000;
+// A job gives up after this long, leaving time to save the partial answer before the
+// platform ends the function at the route's maxDuration (300 seconds)
+export const GENERATION_MAX_MS = 280000;
+
+// What a generation has written to its message row so far
+export interface GenerationProgress {
+  content: string;
+  status: GenerationStatus;
+  error: string | null;
+  toolResults: ToolCallRecord[];
+  citations: WebSearchCitation[];
+  usage: MessageUsage | null;
+}
+
+// The text kept on an answer that did not finish, matching what the chat shows
+export function formatStoppedContent(content: string, status: 'failed' | 'aborted'): string {
+  if (status === 'aborted') {
+    return content ? content + '\n\n_Generation stopped._' : 'Generation stopped.';
+  }
+  return content
+    ? content + '\n\n_Error: Message streaming was interrupted._'
+    : 'Sorry, there was an error processing your request.';
+}
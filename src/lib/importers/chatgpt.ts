@@ -0,0 +1,94 @@
+import { ConversationImporter, ImportedConversation, ImportedMessage } from './types';
+
+interface ChatGPTNode {
+  id: string;
+  parent?: string | null;
+  children?: string[];
+  message?: {
+    author?: { role?: string };
+    create_time?: number | null;
+    content?: { content_type?: string; parts?: unknown[] };
+    metadata?: { model_slug?: string; is_visually_hidden_from_conversation?: boolean };
+  } | null;
+}
+
+interface ChatGPTConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  create_time?: number;
+  current_node?: string;
+  mapping: Record<string, ChatGPTNode>;
+}
+
+function isChatGPTConversation(value: unknown): value is ChatGPTConversation {
+  const data = value as ChatGPTConversation;
+  return !!data && typeof data === 'object' && !!data.mapping && typeof data.mapping === 'object';
+}
+
+// ChatGPT times are seconds since the epoch
+function toTimestamp(seconds: number | null | undefined): string | undefined {
+  return seconds ? new Date(seconds * 1000).toISOString() : undefined;
+}
+
+// The last leaf of the newest branch, for exports without current_node
+function findLatestLeaf(conversation: ChatGPTConversation): string | undefined {
+  const nodes = Object.values(conversation.mapping);
+  let node = nodes.find(candidate => !candidate.parent);
+  while (node && node.children && node.children.length > 0) {
+    node = conversation.mapping[node.children[node.children.length - 1]];
+  }
+  return node?.id;
+}
+
+function parseConversation(conversation: ChatGPTConversation): ImportedConversation {
+  // The mapping is a tree of every edit and regeneration; keep the thread that was last shown
+  const path: ChatGPTNode[] = [];
+  let nodeId = conversation.current_node || findLatestLeaf(conversation);
+  while (nodeId && conversation.mapping[nodeId]) {
+    path.unshift(conversation.mapping[nodeId]);
+    nodeId = conversation.mapping[nodeId].parent || undefined;
+  }
+
+  const messages: ImportedMessage[] = [];
+  path.forEach(({ message }) => {
+    const role = message?.author?.role;
+    if (!message || (role !== 'user' && role !== 'assistant' && role !== 'system')) return;
+    if (message.metadata?.is_visually_hidden_from_conversation) return;
+
+    // Only the text parts survive; images and other attachments are left behind
+    const content = (message.content?.parts || [])
+      .filter((part): part is string => typeof part === 'string')
+      .join('\n')
+      .trim();
+    if (!content) return;
+
+    messages.push({
+      role,
+      content,
+      model: role === 'assistant' ? message.metadata?.model_slug : undefined,
+      createdAt: toTimestamp(message.create_time),
+    });
+  });
+
+  return {
+    title: conversation.title || '',
+    sourceId: conversation.conversation_id || conversation.id,
+    createdAt: toTimestamp(conversation.create_time),
+    messages,
+  };
+}
+
+// ChatGPT's conversations.json: an array of conversations, each a tree of messages
+export const chatGPTImporter: ConversationImporter = {
+  id: 'chatgpt',
+  label: 'ChatGPT',
+
+  detect({ json }) {
+    return Array.isArray(json) && json.length > 0 && isChatGPTConversation(json[0]);
+  },
+
+  parse({ json }) {
+    return (json as unknown[]).filter(isChatGPTConversation).map(parseConversation);
+  },
+};
@@ -0,0 +1,60 @@
+import { ConversationImporter, ImportedConversation } from './types';
+
+interface ClaudeMessage {
+  sender?: string;
+  text?: string;
+  content?: { type?: string; text?: string }[];
+  created_at?: string;
+}
+
+interface ClaudeConversation {
+  uuid?: string;
+  name?: string;
+  created_at?: string;
+  chat_messages: ClaudeMessage[];
+}
+
+function isClaudeConversation(value: unknown): value is ClaudeConversation {
+  const data = value as ClaudeConversation;
+  return !!data && typeof data === 'object' && Array.isArray(data.chat_messages);
+}
+
+// Newer exports split messages into content blocks; older ones only have text
+function messageText(message: ClaudeMessage): string {
+  const blocks = (message.content || [])
+    .filter(block => block.type === 'text' && typeof block.text === 'string')
+    .map(block => block.text)
+    .join('\n');
+  return (blocks || message.text || '').trim();
+}
+
+function parseConversation(conversation: ClaudeConversation): ImportedConversation {
+  return {
+    title: conversation.name || '',
+    sourceId: conversation.uuid,
+    createdAt: conversation.created_at,
+    messages: conversation.chat_messages
+      .map(message => ({
+        role: message.sender === 'human' ? 'user' as const : 'assistant' as const,
+        content: messageText(message),
+        // The export does not say which model answered
+        model: message.sender === 'human' ? undefined : 'claude',
+        createdAt: message.created_at,
+      }))
+      .filter(message => message.content),
+  };
+}
+
+// Claude's data export: an array of conversations with a flat list of chat_messages
+export const claudeImporter: ConversationImporter = {
+  id: 'claude',
+  label: 'Claude',
+
+  detect({ json }) {
+    return Array.isArray(json) && json.length > 0 && isClaudeConversation(json[0]);
+  },
+
+  parse({ json }) {
+    return (json as unknown[]).filter(isClaudeConversation).map(parseConversation);
+  },
+};
@@ -0,0 +1,163 @@
+import { ConversationImporter, ImporterId, ImportInput, ImportedConversation } from './types';
+import { openRouterImporter } from './openrouter';
+import { chatGPTImporter } from './chatgpt';
+import { claudeImporter } from './claude';
+import { transcriptImporter } from './transcript';
+import { getExistingImportKeys, importChat } from '../supabase';
+
+export type {
+  ConversationImporter,
+  ImporterId,
+  ImportInput,
+  ImportedConversation,
+  ImportedMessage,
+} from './types';
+
+// Checked in order; the first importer whose detect() accepts the file parses it
+export const IMPORTERS: ConversationImporter[] = [
+  openRouterImporter,
+  chatGPTImporter,
+  claudeImporter,
+  transcriptImporter,
+];
+
+export interface ParsedImport {
+  importer: ConversationImporter;
+  conversations: ImportedConversation[];
+}
+
+// Work out which format a file is in and read its conversations, or null when no importer knows it
+export function parseImportFile(filename: string, text: string): ParsedImport | null {
+  const input: ImportInput = { filename, text };
+  try {
+    input.json = JSON.parse(text);
+  } catch (error) {
+    // Not JSON; only text importers will accept it
+  }
+
+  const importer = IMPORTERS.find(candidate => candidate.detect(input));
+  if (!importer) return null;
+
+  const conversations = importer.parse(input).filter(conversation => conversation.messages.length > 0);
+  return { importer, conversations };
+}
+
+// Title for a conversation: its own, or the start of its first message
+export function getImportTitle(conversation: ImportedConversation): string {
+  if (conversation.title.trim()) return conversation.title.trim();
+
+  const first = conversation.messages.find(message => message.role !== 'system');
+  if (!first) return 'Imported Conversation';
+  return first.content.length > 25 ? first.content.substring(0, 25) + '...' : first.content;
+}
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+export interface ImportReport {
+  imported: number;
+  skipped: { title: string; reason: string }[];
+  failed: { title: string; reason: string }[];
+  cancelled: boolean;
+  // The most recently imported chat, to open once the import finishes
+  lastChatId: string | null;
+  // Why nothing could be imported at all
+  error: string | null;
+}
+
+// Identify a conversation across imports: its source id when the export has one, otherwise a hash of its content
+async function getImportKey(importerId: ImporterId, conversation: ImportedConversation): Promise<string> {
+  if (conversation.sourceId) return `${importerId}:${conversation.sourceId}`;
+
+  const content = JSON.stringify([
+    conversation.title,
+    conversation.messages.map(message => [message.role, message.content, message.createdAt || null]),
+  ]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  const hash = Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${importerId}:sha256:${hash}`;
+}
+
+// Original timestamps where the export has them. Missing or out-of-order ones are placed just
+// after the message before, since the thread is rebuilt in created_at order.
+function getMessageTimestamps(conversation: ImportedConversation): string[] {
+  let previous = new Date(conversation.createdAt || conversation.messages[0]?.createdAt || Date.now()).getTime() - 1;
+  if (Number.isNaN(previous)) previous = Date.now();
+
+  return conversation.messages.map(message => {
+    const time = message.createdAt ? new Date(message.createdAt).getTime() : NaN;
+    previous = !Number.isNaN(time) && time > previous ? time : previous + 1;
+    return new Date(previous).toISOString();
+  });
+}
+
+// Write conversations as new chats one at a time, skipping ones imported before.
+// Cancelling stops before the next chat; a chat cut off midway is removed again.
+export async function importConversations(
+  importerId: ImporterId,
+  conversations: ImportedConversation[],
+  onProgress: (progress: ImportProgress) => void,
+  signal?: AbortSignal
+): Promise<ImportReport> {
+  const report: ImportReport = { imported: 0, skipped: [], failed: [], cancelled: false, lastChatId: null, error: null };
+
+  const keys = await Promise.all(conversations.map(conversation => getImportKey(importerId, conversation)));
+
+  // Without knowing what was imported before, every earlier chat would be imported again
+  let seenKeys: string[];
+  try {
+    seenKeys = await getExistingImportKeys(keys);
+  } catch (error) {
+    console.error('Error checking imported chats:', error);
+    return { ...report, error: 'Could not check which conversations were imported before, so nothing was imported. Try again.' };
+  }
+
+  for (let index = 0; index < conversations.length; index++) {
+    if (signal?.aborted) {
+      report.cancelled = true;
+      break;
+    }
+
+    const conversation = conversations[index];
+    const title = getImportTitle(conversation);
+
+    if (seenKeys.includes(keys[index])) {
+      report.skipped.push({ title, reason: 'Already imported' });
+    } else {
+      seenKeys.push(keys[index]);
+
+      // A leading system message becomes the chat's system prompt rather than a message
+      const [first, ...rest] = conversation.messages;
+      const hasSystemPrompt = first?.role === 'system';
+      const timestamps = getMessageTimestamps(conversation);
+
+      const chatId = await importChat({
+        title,
+        createdAt: conversation.createdAt || timestamps[0],
+        importKey: keys[index],
+        systemPrompt: hasSystemPrompt ? first.content : null,
+        messages: (hasSystemPrompt ? rest : conversation.messages).map((message, i) => ({
+          message: message.content,
+          source: message.role === 'user' ? 'user' : message.role === 'system' ? 'system' : message.model || 'assistant',
+          created_at: timestamps[hasSystemPrompt ? i + 1 : i],
+        })),
+      }, signal);
+
+      if (chatId) {
+        report.imported++;
+        report.lastChatId = chatId;
+      } else if (signal?.aborted) {
+        report.cancelled = true;
+        break;
+      } else {
+        report.failed.push({ title, reason: 'Could not be saved' });
+      }
+    }
+
+    onProgress({ done: index + 1, total: conversations.length });
+  }
+
+  return report;
+}
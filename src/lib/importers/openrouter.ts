@@ -0,0 +1,43 @@
+import { OpenRouterExport } from '../chatExport';
+import { ConversationImporter, ImportedConversation } from './types';
+
+function isOpenRouterExport(value: unknown): value is OpenRouterExport {
+  const data = value as OpenRouterExport;
+  return !!data && typeof data === 'object' && !!data.version && !!data.messages && !!data.characters;
+}
+
+function parseConversation(data: OpenRouterExport): ImportedConversation {
+  // Messages are keyed by id, so put them back in chronological order
+  const messages = Object.values(data.messages).sort((a, b) =>
+    new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime()
+  );
+
+  return {
+    title: '',
+    createdAt: messages[0]?.updatedAt,
+    messages: messages.map(message => {
+      const isUserMessage = message.characterId === 'USER';
+      return {
+        role: isUserMessage ? 'user' : 'assistant',
+        content: message.content,
+        model: isUserMessage ? undefined : data.characters[message.characterId]?.model || undefined,
+        createdAt: message.updatedAt,
+      };
+    }),
+  };
+}
+
+// OpenRouter chatroom exports, either one conversation or our bulk export's array of them
+export const openRouterImporter: ConversationImporter = {
+  id: 'openrouter',
+  label: 'OpenRouter',
+
+  detect({ json }) {
+    return isOpenRouterExport(json) || (Array.isArray(json) && json.length > 0 && json.every(isOpenRouterExport));
+  },
+
+  parse({ json }) {
+    const exports = Array.isArray(json) ? json : [json];
+    return exports.filter(isOpenRouterExport).map(parseConversation);
+  },
+};
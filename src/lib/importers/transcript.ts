@@ -0,0 +1,58 @@
+import { ConversationImporter, ImportedMessage } from './types';
+
+// A speaker line such as "User:", "**Assistant:**" or "## Human:", with the rest of the line as content
+const SPEAKER_LINE = /^(?:#{1,6}\s*)?(?:\*\*)?(user|human|you|assistant|ai|system)(?:\s*\(([^)]*)\))?\s*:(?:\*\*)?\s?(.*)$/i;
+
+// Headings of our own Markdown export, such as "## Assistant (openai/gpt-4o) · 5/1/2025, 10:00:00 AM".
+// The empty last group lines up with the inline content that SPEAKER_LINE captures.
+const EXPORT_HEADING = /^#{2}\s*(User|Assistant|System)(?:\s*\(([^)]*)\))?\s*·.*()$/;
+
+function matchSpeaker(line: string): RegExpMatchArray | null {
+  return line.match(SPEAKER_LINE) || line.match(EXPORT_HEADING);
+}
+
+function toRole(speaker: string): ImportedMessage['role'] {
+  const name = speaker.toLowerCase();
+  if (name === 'system') return 'system';
+  return name === 'user' || name === 'human' || name === 'you' ? 'user' : 'assistant';
+}
+
+// Plain "User: / Assistant:" transcripts in Markdown or text files, one conversation per file
+export const transcriptImporter: ConversationImporter = {
+  id: 'transcript',
+  label: 'Text transcript',
+
+  detect({ json, text }) {
+    return json === undefined && text.split('\n').some(line => !!matchSpeaker(line.trim()));
+  },
+
+  parse({ filename, text }) {
+    const messages: ImportedMessage[] = [];
+    let title = '';
+    let current: ImportedMessage | null = null;
+
+    text.split('\n').forEach(line => {
+      const match = matchSpeaker(line.trim());
+      if (match) {
+        current = { role: toRole(match[1]), content: match[3], model: match[2] || undefined };
+        messages.push(current);
+      } else if (current) {
+        current.content += `\n${line}`;
+      } else if (!title && line.startsWith('# ')) {
+        // A heading before the first speaker names the conversation
+        title = line.slice(2).trim();
+      }
+    });
+
+    return [{
+      title: title || filename.replace(/\.[^.]+$/, ''),
+      messages: messages
+        .map(message => ({
+          ...message,
+          content: message.content.trim(),
+          model: message.role === 'assistant' ? message.model : undefined,
+        }))
+        .filter(message => message.content),
+    }];
+  },
+};
@@ -0,0 +1,33 @@
+export type ImporterId = 'openrouter' | 'chatgpt' | 'claude' | 'transcript';
+
+export interface ImportedMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  // Model that wrote an assistant message, when the export records it
+  model?: string;
+  createdAt?: string;
+}
+
+export interface ImportedConversation {
+  title: string;
+  // The conversation's id in the source tool, used to spot repeat imports
+  sourceId?: string;
+  createdAt?: string;
+  messages: ImportedMessage[];
+}
+
+// A file as handed to the importers; json is set when the text parses as JSON
+export interface ImportInput {
+  filename: string;
+  text: string;
+  json?: unknown;
+}
+
+// An importer recognises one export format and turns it into plain conversations.
+// detect must be cheap and must not throw; parse may throw on a malformed file.
+export interface ConversationImporter {
+  id: ImporterId;
+  label: string;
+  detect(input: ImportInput): boolean;
+  parse(input: ImportInput): ImportedConversation[];
+}
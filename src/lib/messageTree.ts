@@ -0,0 +1,108 @@
+import { ChatMessageDB } from './supabase';
+
+export interface MessageBranch {
+  index: number;
+  siblingIds: string[];
+}
+
+export interface ChatPathMessage extends ChatMessageDB {
+  branch: MessageBranch;
+}
+
+// Answers of the same fan-out group are one turn, so they count as a single branch
+function branchKey(message: ChatMessageDB): string {
+  return message.fanout_group || message.messageid || '';
+}
+
+// Children of a message (or the roots when parentId is null), oldest first
+function getChildren(messages: ChatMessageDB[], parentId: string | null): ChatMessageDB[] {
+  return messages.filter(message => (message.parent_id || null) === parentId);
+}
+
+// One representative message per branch under a parent, oldest branch first
+function getBranchRoots(messages: ChatMessageDB[], parentId: string | null): ChatMessageDB[] {
+  const seen: string[] = [];
+  return getChildren(messages, parentId).filter(message => {
+    const key = branchKey(message);
+    if (seen.includes(key)) return false;
+    seen.push(key);
+    return true;
+  });
+}
+
+// The fan-out answer that later turns hang off
+function getGroupAnchor(messages: ChatMessageDB[], group: ChatMessageDB[]): ChatMessageDB {
+  return group.find(message => message.fanout_selected)
+    || group.find(message => getChildren(messages, message.messageid || null).length > 0)
+    || group[0];
+}
+
+// Follow the newest branch down from a message to the end of its thread
+export function findLatestLeaf(messages: ChatMessageDB[], messageId: string): string {
+  let currentId = messageId;
+
+  while (true) {
+    const children = getChildren(messages, currentId);
+    if (children.length === 0) return currentId;
+
+    const latest = children[children.length - 1];
+    const group = latest.fanout_group
+      ? children.filter(child => child.fanout_group === latest.fanout_group)
+      : [latest];
+    const nextId = getGroupAnchor(messages, group).messageid;
+    if (!nextId) return currentId;
+    currentId = nextId;
+  }
+}
+
+// Walk from the root to the active leaf, then on down the newest branches.
+// Expects messages ordered by created_at.
+export function getActivePath(
+  messages: ChatMessageDB[],
+  activeLeafId: string | null
+): ChatPathMessage[] {
+  const byId: Record<string, ChatMessageDB> = {};
+  messages.forEach(message => {
+    if (message.messageid) byId[message.messageid] = message;
+  });
+
+  // Ancestors of the active leaf, keyed by their parent
+  const chosenChild: Record<string, string> = {};
+  let cursor = activeLeafId ? byId[activeLeafId] : undefined;
+  while (cursor && cursor.messageid) {
+    chosenChild[cursor.parent_id || 'root'] = cursor.messageid;
+    cursor = cursor.parent_id ? byId[cursor.parent_id] : undefined;
+  }
+
+  const path: ChatPathMessage[] = [];
+  let parentId: string | null = null;
+
+  while (true) {
+    const children = getChildren(messages, parentId);
+    if (children.length === 0) break;
+
+    const chosenId: string | undefined = chosenChild[parentId || 'root'];
+    const chosen: ChatMessageDB = (chosenId && byId[chosenId]) || children[children.length - 1];
+
+    const branchRoots = getBranchRoots(messages, parentId);
+    const branch: MessageBranch = {
+      index: Math.max(0, branchRoots.findIndex(message => branchKey(message) === branchKey(chosen))),
+      siblingIds: branchRoots.map(message => message.messageid || ''),
+    };
+
+    if (chosen.fanout_group) {
+      const group = children.filter(child => child.fanout_group === chosen.fanout_group);
+      group.forEach(message => path.push({ ...message, branch }));
+      parentId = (chosenId && byId[chosenId]?.fanout_group === chosen.fanout_group
+        ? chosenId
+        : getGroupAnchor(messages, group).messageid) || null;
+    } else {
+      path.push({ ...chosen, branch });
+      parentId = chosen.messageid || null;
+    }
+
+    if (!parentId) break;
+  }
+
+  return path;
+}
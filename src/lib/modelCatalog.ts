@@ -0,0 +1,105 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { OPENROUTER_API_URL } from './openrouterServer';
+import catalogFixture from './fixtures/openrouter-models.json';
+
+// A model as listed by OpenRouter's GET /models; prices are USD per token, as strings
+export interface CatalogModel {
+  id: string;
+  name: string;
+  description?: string;
+  context_length?: number | null;
+  architecture?: {
+    modality?: string;
+    input_modalities?: string[];
+    output_modalities?: string[];
+    tokenizer?: string;
+  };
+  pricing?: {
+    prompt?: string;
+    completion?: string;
+  };
+}
+
+export type CatalogSource = 'provider' | 'fixture';
+
+export interface CatalogSyncResult {
+  source: CatalogSource;
+  synced: number;
+  // Listed models left alone because an admin mapped them to another provider
+  skipped: number;
+}
+
+// Fetch the provider's models listing, or the bundled fixture for offline use
+export async function fetchModelCatalog(source: CatalogSource): Promise<CatalogModel[]> {
+  if (source === 'fixture') {
+    return catalogFixture.data;
+  }
+
+  const response = await fetch(`${OPENROUTER_API_URL}/models`);
+  if (!response.ok) {
+    throw new Error(`OpenRouter API error: ${await response.text()}`);
+  }
+
+  const body = await response.json();
+  return Array.isArray(body?.data) ? body.data : [];
+}
+
+function parsePrice(price?: string): number | null {
+  if (price === undefined || price === null || price === '') return null;
+  const value = Number(price);
+  // OpenRouter lists "-1" for variable-priced routers
+  return Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+// Map a listing entry onto an avail_models row
+export function toAvailModelRow(model: CatalogModel, syncedAt: string) {
+  return {
+    model_id: model.id,
+    model_name: model.name,
+    provider: 'openrouter',
+    description: model.description || null,
+    context_length: model.context_length || null,
+    tokenizer: model.architecture?.tokenizer || null,
+    input_modalities: model.architecture?.input_modalities || ['text'],
+    output_modalities: model.architecture?.output_modalities || ['text'],
+    pricing_prompt: parsePrice(model.pricing?.prompt),
+    pricing_completion: parsePrice(model.pricing?.completion),
+    synced_at: syncedAt,
+  };
+}
+
+// Upsert the catalog into avail_models. Models that are not in the listing,
+// such as local or mock ones, are left alone, and so are listed ids an admin
+// mapped to another provider.
+export async function syncModelCatalog(
+  supabase: SupabaseClient,
+  source: CatalogSource
+): Promise<CatalogSyncResult> {
+  const models = await fetchModelCatalog(source);
+  const syncedAt = new Date().toISOString();
+
+  const { data: otherProviderModels, error: lookupError } = await supabase
+    .from('avail_models')
+    .select('model_id')
+    .neq('provider', 'openrouter');
+
+  if (lookupError) throw lookupError;
+
+  const otherProviderIds = new Set((otherProviderModels || []).map(model => model.model_id as string));
+  const listed = models.filter(model => model.id && model.name);
+  const rows = listed
+    .filter(model => !otherProviderIds.has(model.id))
+    .map(model => toAvailModelRow(model, syncedAt));
+
+  // Keep each request comfortably below PostgREST's payload limits
+  const batchSize = 200;
+  for (let start = 0; start < rows.length; start += batchSize) {
+    const { error } = await supabase
+      .from('avail_models')
+      .upsert(rows.slice(start, start + batchSize), { onConflict: 'model_id' });
+
+    if (error) throw error;
+  }
+
+  return { source, synced: rows.length, skipped: listed.length - rows.length };
+}
@@ -0,0 +1,64 @@
+import { OpenRouterModel } from './openrouter';
+
+export interface ModelFilters {
+  minContextLength: number;
+  // Highest acceptable prompt price in USD per million tokens; null means any
+  maxPromptPricePerMillion: number | null;
+  // Input modalities the model must accept besides text, e.g. "image"
+  inputModalities: string[];
+}
+
+export const DEFAULT_MODEL_FILTERS: ModelFilters = {
+  minContextLength: 0,
+  maxPromptPricePerMillion: null,
+  inputModalities: [],
+};
+
+export function filterModels(
+  models: OpenRouterModel[],
+  query: string,
+  filters: ModelFilters
+): OpenRouterModel[] {
+  const normalizedQuery = query.toLowerCase();
+
+  return models.filter(model => {
+    if (normalizedQuery
+      && !model.name.toLowerCase().includes(normalizedQuery)
+      && !model.id.toLowerCase().includes(normalizedQuery)) {
+      return false;
+    }
+
+    // Models without catalog details only pass when that filter is off
+    if (filters.minContextLength > 0 && (model.context_length || 0) < filters.minContextLength) {
+      return false;
+    }
+
+    if (filters.maxPromptPricePerMillion !== null) {
+      if (!model.pricing || model.pricing.prompt * 1000000 > filters.maxPromptPricePerMillion) {
+        return false;
+      }
+    }
+
+    const inputModalities = model.architecture?.input_modalities || ['text'];
+    return filters.inputModalities.every(modality => inputModalities.includes(modality));
+  });
+}
+
+// e.g. 131072 -> "131k", 1048576 -> "1M"
+export function formatContextLength(tokens: number): string {
+  if (tokens >= 1000000) return `${Math.round(tokens / 100000) / 10}M`;
+  if (tokens >= 1000) return `${Math.round(tokens / 1000)}k`;
+  return String(tokens);
+}
+
+// Price per million tokens from a per-token price
+export function formatPricePerMillion(pricePerToken: number): string {
+  if (pricePerToken === 0) return 'Free';
+  const perMillion = pricePerToken * 1000000;
+  return `$${perMillion < 0.1 ? perMillion.toFixed(3) : perMillion.toFixed(2)}`;
+}
+
+// Input kinds worth calling out next to a model; plain text is assumed
+export function getModalityBadges(model: OpenRouterModel): string[] {
+  return (model.architecture?.input_modalities || []).filter(modality => modality !== 'text');
+}
@@ -1,29 +1,45 @@
-import { getUserOpenRouterApiKey } from './supabase';
-
-// Add a variable to cache the API key in memory
-let cachedApiKey: string | null = null;
-
-// Function to get the cached API key or fetch a new one
-export async function getApiKey(): Promise<string | null> {
-  if (cachedApiKey !== null) {
-    return cachedApiKey;
-  }
-  
-  cachedApiKey = await getUserOpenRouterApiKey();
-  return cachedApiKey;
-}
-
-// Function to clear the cached API key (useful when user updates their key)
-export function clearCachedApiKey(): void {
-  cachedApiKey = null;
-}
+import {
+  abortGeneration,
+  createMessageWriter,
+  getAccessToken,
+  getAttachmentUrls,
+  subscribeToGeneration,
+} from './supabase';
+import { MessageBranch } from './messageTree';
+import { ChatCompletionRequest, ProviderId } from './providers/types';
+import { ChunkUsage, MessageUsage } from './usage';
+import { ContextTrim } from './contextWindow';
+import { GenerationParams } from './generationParams';
+import { MessageAttachment, MessageContentPart, buildContentParts } from './attachments';
+import { formatDocumentBlock } from './documents';
+import { ToolCall, ToolCallDelta, ToolCallRecord, ToolDefinition, ToolName } from './tools/types';
+import { WebSearchOptions, buildWebSearchRequest } from './webSearch';
+import { GenerationStatus, formatStoppedContent } from './generations';
+import { readChatCompletionStream } from './chatCompletionStream';
 
 export interface ChatMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
   model?: string;
   messageid?: string;
   citations?: WebSearchCitation[];
+  fanoutGroup?: string;
+  fanoutSelected?: boolean;
+  parentId?: string;
+  branch?: MessageBranch;
+  usage?: MessageUsage;
+  contextTrim?: ContextTrim;
+  generationParams?: GenerationParams;
+  attachments?: MessageAttachment[];
+  // Calls an assistant message made mid-answer, and the call a tool message answers
+  toolCalls?: ToolCall[];
+  toolCallId?: string;
+  // Tools run while writing this answer, shown as cards
+  toolResults?: ToolCallRecord[];
+  // Set on answers that searched the web
+  webSearch?: WebSearchOptions;
+  // Set on answers written by a server job
+  generationStatus?: GenerationStatus;
 }
 
 export interface ChatCompletionResponse {
@@ -64,15 +80,18 @@ export interface ChatCompletionChunk {
       role?: string;
       annotations?: Annotation[];
       citations?: WebSearchCitation[];
+      tool_calls?: ToolCallDelta[];
     };
     finish_reason: string | null;
     index: number;
   }[];
+  usage?: ChunkUsage;
 }
 
 export interface OpenRouterModel {
   id: string;
   name: string;
+  provider?: ProviderId;
   description?: string;
   context_length?: number;
   pricing?: {
@@ -81,6 +100,8 @@ export interface OpenRouterModel {
   };
   architecture?: {
     tokenizer?: string;
+    input_modalities?: string[];
+    output_modalities?: string[];
   };
 }
 
@@ -91,7 +112,7 @@ export async function getAvailableModels(): Promise<OpenRouterModel[]> {
   try {
     const { data, error } = await supabase
       .from('avail_models')
-      .select('model_id, model_name');
+      .select('model_id, model_name, provider, description, context_length, tokenizer, input_modalities, output_modalities, pricing_prompt, pricing_completion');
 
     if (error) {
       throw new Error(`Supabase error: ${error.message}`);
@@ -101,6 +122,17 @@ export async function getAvailableModels(): Promise<OpenRouterModel[]> {
     return data.map(model => ({
       id: model.model_id,
       name: model.model_name,
+      provider: model.provider || 'openrouter',
+      description: model.description || undefined,
+      context_length: model.context_length || undefined,
+      pricing: model.pricing_prompt !== null && model.pricing_completion !== null
+        ? { prompt: Number(model.pricing_prompt), completion: Number(model.pricing_completion) }
+        : undefined,
+      architecture: {
+        tokenizer: model.tokenizer || undefined,
+        input_modalities: model.input_modalities || ['text'],
+        output_modalities: model.output_modalities || ['text'],
+      },
     }));
   } catch (error) {
     console.error('Error fetching available models:', error);
@@ -108,6 +140,63 @@ export async function getAvailableModels(): Promise<OpenRouterModel[]> {
   }
 }
 
+// A message in the shape the chat completions API takes
+export interface RequestMessage {
+  role: ChatMessage['role'];
+  content: string | MessageContentPart[];
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+}
+
+// Documents are appended to the message text; images are sent as content parts.
+// Tool fields are renamed to what the API expects, and display-only fields are left out.
+async function toRequestMessages(messages: ChatMessage[]): Promise<RequestMessage[]> {
+  return Promise.all(messages.map(async ({ role, content, attachments, toolCalls, toolCallId }) => {
+    const message: RequestMessage = {
+      role,
+      content,
+      ...(toolCalls && toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      ...(toolCallId ? { tool_call_id: toolCallId } : {}),
+    };
+    if (!attachments || attachments.length === 0) return message;
+
+    const images = attachments.filter(attachment => attachment.type === 'image');
+    const documents = attachments.filter(attachment => attachment.type === 'document');
+    const text = [content, ...documents.map(formatDocumentBlock)].filter(Boolean).join('\n\n');
+    if (images.length === 0) return { ...message, content: text };
+
+    const urls = await getAttachmentUrls(images);
+    return { ...message, content: buildContentParts(text, urls.filter(Boolean)) };
+  }));
+}
+
+// The request body both the proxy route and the generation route accept
+async function buildChatCompletionRequest(
+  messages: ChatMessage[],
+  model: string,
+  webSearchOptions: WebSearchOptions | null,
+  generationParams: GenerationParams,
+  tools: ToolDefinition[] = []
+): Promise<ChatCompletionRequest> {
+  const requestBody: ChatCompletionRequest = {
+    ...generationParams,
+    "model": model,
+    "messages": await toRequestMessages(messages),
+    "stream": true
+  };
+
+  if (tools.length > 0) {
+    requestBody.tools = tools;
+  }
+
+  // Add web search plugin if requested
+  if (webSearchOptions) {
+    Object.assign(requestBody, buildWebSearchRequest(webSearchOptions));
+  }
+
+  return requestBody;
+}
+
 export async function getChatCompletionStream(
   messages: ChatMessage[],
   model: string = 'google/gemini-2.0-flash-001',
@@ -115,42 +204,26 @@ export async function getChatCompletionStream(
   onDone: () => void,
   onError: (error: Error) => void,
   signal?: AbortSignal,
-  useWebSearch: boolean = false,
+  webSearchOptions: WebSearchOptions | null = null,
+  generationParams: GenerationParams = {},
+  tools: ToolDefinition[] = [],
 ): Promise<void> {
-  // Get the user's API key from the cache or database
-  const apiKey = await getApiKey();
+  // The server route looks up the user's API key, so only the session token is sent
+  const accessToken = await getAccessToken();
   
-  if (!apiKey) {
-    onError(new Error('OpenRouter API key is not set for this user'));
+  if (!accessToken) {
+    onError(new Error('User not authenticated'));
     return;
   }
 
-  // Format the request body with streaming enabled
-  const requestBody: any = {
-    "model": model,
-    "messages": messages,
-    "stream": true
-  };
-
-  // Add web search plugin if requested
-  if (useWebSearch) {
-    requestBody.plugins = [
-      {
-        "id": "web",
-        "max_results": (process.env.NEXT_PUBLIC_WEB_SEARCH_MAX_RESULTS ? Number.parseInt(process.env.NEXT_PUBLIC_WEB_SEARCH_MAX_RESULTS) : 5),
-        "search_context_size": process.env.NEXT_PUBLIC_WEB_SEARCH_CONTEXT_SIZE || 5,
-      }
-    ];
-  }
+  const requestBody = await buildChatCompletionRequest(messages, model, webSearchOptions, generationParams, tools);
 
   try {
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
+    const response = await fetch('/api/chat', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-        'HTTP-Referer': process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000',
-        'X-Title': 'Orchestrate Chat'
+        'Authorization': `Bearer ${accessToken}`
       },
       body: JSON.stringify(requestBody),
       signal, // Add the abort signal
@@ -167,54 +240,146 @@ export async function getChatCompletionStream(
       return;
     }
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
-
     // Set up an abort handler if signal is provided
     if (signal) {
       signal.addEventListener('abort', () => {
-        reader.cancel().catch(console.error);
         onError(new Error('Request aborted'));
       }, { once: true });
     }
 
-    while (true) {
-      const { done, value } = await reader.read();
-      
-      if (done) {
-        onDone();
-        break;
-      }
+    await readChatCompletionStream(response.body, (chunk) => {
+      // Ensure we're using the same model ID that we sent in the request
+      chunk.model = model;
+      onChunk(chunk);
+    }, signal);
+    onDone();
+  } catch (error) {
+    onError(error instanceof Error ? error : new Error(String(error)));
+  }
+}
 
-      buffer += decoder.decode(value, { stream: true });
-      
-      // Process complete SSE lines
-      let lineEnd;
-      while ((lineEnd = buffer.indexOf('\n')) !== -1) {
-        const line = buffer.slice(0, lineEnd).trim();
-        buffer = buffer.slice(lineEnd + 1);
-        
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          
-          if (data === '[DONE]') {
-            onDone();
-            break;
-          }
-          
-          try {
-            const chunk = JSON.parse(data) as ChatCompletionChunk;
-            // Ensure we're using the same model ID that we sent in the request
-            chunk.model = model;
-            onChunk(chunk);
-          } catch (e) {
-            // Ignore comments or malformed JSON
-          }
-        }
-      }
+// Stream an answer that a server job writes into the message row, so it carries on when
+// this tab closes. Callbacks match getChatCompletionStream: chunks are rebuilt from the saved
+// progress, usage arrives with the last one, and onToolCalls gets every finished call so far.
+// Aborting the signal stops the job itself.
+export async function streamGeneration(
+  messageId: string | null,
+  messages: ChatMessage[],
+  model: string,
+  onChunk: (chunk: ChatCompletionChunk) => void,
+  onDone: () => void,
+  onError: (error: Error) => void,
+  signal: AbortSignal | undefined,
+  webSearchOptions: WebSearchOptions | null,
+  generationParams: GenerationParams,
+  tools: ToolName[],
+  onToolCalls: (records: ToolCallRecord[]) => void,
+): Promise<void> {
+  if (!messageId) {
+    onError(new Error('The answer could not be saved'));
+    return;
+  }
+
+  const accessToken = await getAccessToken();
+  if (!accessToken) {
+    onError(new Error('User not authenticated'));
+    return;
+  }
+
+  try {
+    const response = await fetch('/api/generations', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`
+      },
+      body: JSON.stringify({
+        messageId,
+        request: await buildChatCompletionRequest(messages, model, webSearchOptions, generationParams),
+        tools,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Could not start the generation: ${await response.text()}`);
     }
   } catch (error) {
+    // The job never ran, so the row is still empty
+    const writer = createMessageWriter(messageId);
+    writer.update({ content: formatStoppedContent('', 'failed') });
+    writer.close().catch(console.error);
     onError(error instanceof Error ? error : new Error(String(error)));
+    return;
   }
-}
\ No newline at end of file
+
+  await new Promise<void>(resolve => {
+    let deliveredContent = '';
+    let deliveredCitations = 0;
+    let deliveredToolCalls = 0;
+    let finished = false;
+
+    const finish = (error?: Error) => {
+      if (finished) return;
+      finished = true;
+      stopFollowing();
+      if (error) {
+        onError(error);
+      } else {
+        onDone();
+      }
+      resolve();
+    };
+
+    const stopFollowing = subscribeToGeneration(messageId, (progress) => {
+      if (finished) return;
+
+      if (progress.status === 'aborted') {
+        finish(new Error('Request aborted'));
+        return;
+      }
+      if (progress.status === 'failed') {
+        finish(new Error(progress.error || 'Generation failed'));
+        return;
+      }
+
+      if (progress.toolResults.length > deliveredToolCalls) {
+        deliveredToolCalls = progress.toolResults.length;
+        onToolCalls(progress.toolResults);
+      }
+
+      // The saved text only grows while the job runs
+      const contentDelta = progress.content.startsWith(deliveredContent)
+        ? progress.content.slice(deliveredContent.length)
+        : '';
+      const citations = progress.citations.length > deliveredCitations ? progress.citations : undefined;
+      const isComplete = progress.status === 'completed';
+
+      if (contentDelta || citations || (isComplete && progress.usage)) {
+        deliveredContent += contentDelta;
+        deliveredCitations = progress.citations.length;
+        onChunk({
+          id: messageId,
+          model,
+          choices: [{ delta: { content: contentDelta, citations }, finish_reason: isComplete ? 'stop' : null, index: 0 }],
+          usage: isComplete && progress.usage
+            ? {
+                prompt_tokens: progress.usage.promptTokens,
+                completion_tokens: progress.usage.completionTokens,
+                cost: progress.usage.cost === null ? undefined : progress.usage.cost,
+              }
+            : undefined,
+        });
+      }
+
+      if (isComplete) finish();
+    });
+
+    if (signal) {
+      signal.addEventListener('abort', () => {
+        abortGeneration(messageId).catch(console.error);
+        finish(new Error('Request aborted'));
+      }, { once: true });
+    }
+  });
+}
@@ -0,0 +1,33 @@
+// Point this at a local stand-in to exercise the server routes without OpenRouter
+export const OPENROUTER_API_URL = process.env.OPENROUTER_API_URL || 'https://openrouter.ai/api/v1';
+
+export interface ApiKeyValidation {
+  valid: boolean;
+  error?: string;
+  label?: string;
+}
+
+// Ask the provider whether a key is usable before it is stored
+export async function validateOpenRouterApiKey(apiKey: string): Promise<ApiKeyValidation> {
+  try {
+    const response = await fetch(`${OPENROUTER_API_URL}/key`, {
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      return {
+        valid: false,
+        error: response.status === 401 ? 'OpenRouter rejected this API key' : `OpenRouter API error: ${error}`,
+      };
+    }
+
+    const body = await response.json().catch(() => null);
+    return { valid: true, label: body?.data?.label };
+  } catch (error) {
+    console.error('Error validating OpenRouter API key:', error);
+    return { valid: false, error: 'Failed to reach OpenRouter' };
+  }
+}
@@ -0,0 +1,17 @@
+import { LLMProvider, ProviderId } from './types';
+import { openRouterProvider } from './openrouter';
+import { openAICompatibleProvider } from './openaiCompatible';
+import { mockProvider } from './mock';
+
+export type { LLMProvider, ProviderId, ChatCompletionRequest, ProviderContext } from './types';
+export { PROVIDER_IDS } from './types';
+
+const providers: Record<ProviderId, LLMProvider> = {
+  'openrouter': openRouterProvider,
+  'openai-compatible': openAICompatibleProvider,
+  'mock': mockProvider,
+};
+
+export function getProvider(id: ProviderId): LLMProvider {
+  return providers[id] || openRouterProvider;
+}
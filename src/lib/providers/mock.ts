@@ -0,0 +1,73 @@
+import { LLMProvider } from './types';
+
+// Pause between chunks so demos look like a real stream; zero keeps tests fast
+const CHUNK_DELAY_MS = Number(process.env.MOCK_PROVIDER_CHUNK_DELAY_MS || 0);
+
+// Text content of a message, including the text parts of multi-part content
+function messageText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .map(part => (part && typeof part === 'object' && 'text' in part ? String(part.text) : ''))
+      .join(' ');
+  }
+  return '';
+}
+
+// The same conversation always produces the same reply
+export function buildMockReply(model: string, messages: { role: string; content: unknown }[]): string {
+  const lastUserMessage = [...messages].reverse().find(message => message.role === 'user');
+  const prompt = messageText(lastUserMessage?.content).trim();
+
+  return `Mock reply from ${model} (turn ${messages.length}): ${prompt || '(empty prompt)'}`;
+}
+
+// Offline provider for demos and automated tests; never touches the network
+export const mockProvider: LLMProvider = {
+  id: 'mock',
+
+  async streamChatCompletion(request, { signal }) {
+    const reply = buildMockReply(request.model, request.messages || []);
+    const words = reply.split(/(?<= )/);
+    const encoder = new TextEncoder();
+
+    // Deterministic stand-in for token counts: roughly four characters per token
+    const promptTokens = Math.ceil(
+      (request.messages || []).reduce((total, message) => total + messageText(message.content).length, 0) / 4
+    );
+    const usage = {
+      prompt_tokens: promptTokens,
+      completion_tokens: words.length,
+      total_tokens: promptTokens + words.length,
+      cost: 0,
+    };
+
+    const chunkEvent = (delta: { content?: string }, finishReason: string | null) =>
+      encoder.encode(`data: ${JSON.stringify({
+        id: 'mock',
+        model: request.model,
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+        ...(finishReason ? { usage } : {}),
+      })}\n\n`);
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        for (const word of words) {
+          if (signal?.aborted) {
+            controller.close();
+            return;
+          }
+          controller.enqueue(chunkEvent({ content: word }, null));
+          if (CHUNK_DELAY_MS > 0) {
+            await new Promise(resolve => setTimeout(resolve, CHUNK_DELAY_MS));
+          }
+        }
+        controller.enqueue(chunkEvent({}, 'stop'));
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      },
+    });
+
+    return new Response(stream, { headers: { 'Content-Type': 'text/event-stream' } });
+  },
+};
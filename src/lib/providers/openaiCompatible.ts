@@ -0,0 +1,30 @@
+import { LLMProvider } from './types';
+
+// Any server speaking the OpenAI chat completions API, such as Ollama
+// (http://localhost:11434/v1) or llama.cpp (http://localhost:8080/v1)
+export const openAICompatibleProvider: LLMProvider = {
+  id: 'openai-compatible',
+
+  async streamChatCompletion(request, { baseUrl, signal }) {
+    const endpoint = baseUrl || process.env.OPENAI_COMPATIBLE_BASE_URL;
+    if (!endpoint) {
+      return new Response('No base URL is configured for this model', { status: 400 });
+    }
+
+    // OpenRouter plugins (such as web search) mean nothing to other servers
+    const { plugins: _plugins, ...body } = request;
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (process.env.OPENAI_COMPATIBLE_API_KEY) {
+      headers['Authorization'] = `Bearer ${process.env.OPENAI_COMPATIBLE_API_KEY}`;
+    }
+
+    return fetch(`${endpoint.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      // Ask for token counts in a final chunk
+      body: JSON.stringify({ ...body, stream: true, stream_options: { include_usage: true } }),
+      signal,
+    });
+  },
+};
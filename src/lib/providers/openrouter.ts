@@ -0,0 +1,30 @@
+import { getOpenRouterApiKey } from '../supabaseServer';
+import { OPENROUTER_API_URL } from '../openrouterServer';
+import { LLMProvider } from './types';
+
+// OpenRouter, authenticated with the user's own stored key. The key only ever goes to
+// OPENROUTER_API_URL: a per-model base URL from avail_models is ignored, so editing
+// that table can't redirect it to another host.
+export const openRouterProvider: LLMProvider = {
+  id: 'openrouter',
+
+  async streamChatCompletion(request, { auth, signal }) {
+    const apiKey = await getOpenRouterApiKey(auth);
+    if (!apiKey) {
+      return new Response('OpenRouter API key is not set for this user', { status: 400 });
+    }
+
+    return fetch(`${OPENROUTER_API_URL}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+        'HTTP-Referer': process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000',
+        'X-Title': 'Orchestrate Chat'
+      },
+      // Ask for token counts and cost in the final chunk
+      body: JSON.stringify({ ...request, stream: true, usage: { include: true } }),
+      signal,
+    });
+  },
+};
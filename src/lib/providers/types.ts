@@ -0,0 +1,33 @@
+import { AuthenticatedRequest } from '../supabaseServer';
+import type { RequestMessage } from '../openrouter';
+import { GenerationParams } from '../generationParams';
+import { ToolDefinition } from '../tools/types';
+import { WebSearchRequestFields } from '../webSearch';
+
+export type ProviderId = 'openrouter' | 'openai-compatible' | 'mock';
+
+export const PROVIDER_IDS: ProviderId[] = ['openrouter', 'openai-compatible', 'mock'];
+
+// The OpenAI-style request body the browser sends, built by buildChatCompletionRequest.
+// Providers pass it on as it is, less the fields their API doesn't know.
+export interface ChatCompletionRequest extends GenerationParams, WebSearchRequestFields {
+  model: string;
+  messages: RequestMessage[];
+  stream: boolean;
+  tools?: ToolDefinition[];
+}
+
+export interface ProviderContext {
+  auth: AuthenticatedRequest;
+  // Per-model override of the provider's endpoint, from avail_models; OpenRouter ignores it
+  baseUrl: string | null;
+  signal?: AbortSignal;
+}
+
+// A provider streams a completion back as OpenAI-style server-sent events
+// ("data: <ChatCompletionChunk>" lines ending with "data: [DONE]"). A non-2xx
+// response carries the error text in its body.
+export interface LLMProvider {
+  id: ProviderId;
+  streamChatCompletion(request: ChatCompletionRequest, context: ProviderContext): Promise<Response>;
+}
@@ -0,0 +1,105 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type SearchRole = 'user' | 'assistant';
+
+export interface SearchFilters {
+  // Part of a model id, matched against the message source
+  model: string;
+  role: SearchRole | null;
+  // Inclusive dates as yyyy-mm-dd, from date inputs
+  from: string;
+  to: string;
+}
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = {
+  model: '',
+  role: null,
+  from: '',
+  to: '',
+};
+
+export interface SearchResult {
+  chatId: string;
+  // Null when the chat title matched rather than a message
+  messageId: string | null;
+  title: string;
+  source: string | null;
+  created_at: string;
+  snippet: string;
+}
+
+// A row returned by the search_messages function
+interface SearchMessagesRow {
+  chatid: string;
+  messageid: string | null;
+  title: string;
+  source: string | null;
+  created_at: string;
+  snippet: string;
+  rank: number;
+}
+
+// Local midnight of a yyyy-mm-dd date, optionally some days later. new Date('yyyy-mm-dd')
+// would give UTC midnight instead.
+function startOfLocalDay(date: string, addDays: number = 0): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day + addDays);
+}
+
+// Full-text search across the current user's messages and chat titles, best matches first
+// Takes the client to search with: the browser's, or on the server the client of the user it acts for
+export async function searchMessages(
+  client: SupabaseClient,
+  query: string,
+  filters: SearchFilters,
+  limit: number = 50
+): Promise<SearchResult[]> {
+  try {
+    // Date inputs are whole days in the user's time zone; the end date includes the day itself
+    const since = filters.from ? startOfLocalDay(filters.from) : null;
+    const until = filters.to ? startOfLocalDay(filters.to, 1) : null;
+
+    const { data, error } = await client.rpc('search_messages', {
+      search_query: query,
+      model_filter: filters.model.trim() || null,
+      role_filter: filters.role,
+      since: since ? since.toISOString() : null,
+      until: until ? until.toISOString() : null,
+      result_limit: limit
+    });
+    
+    if (error) throw error;
+    
+    const rows: SearchMessagesRow[] = data || [];
+    return rows.map(result => ({
+      chatId: result.chatid,
+      messageId: result.messageid,
+      title: result.title,
+      source: result.source,
+      created_at: result.created_at,
+      snippet: result.snippet
+    }));
+  } catch (error) {
+    console.error('Error searching messages:', error);
+    return [];
+  }
+}
+
+// search_messages wraps matched words in these private-use characters
+const HIGHLIGHT_START = '\uE000';
+const HIGHLIGHT_END = '\uE001';
+
+// Split a snippet into plain and highlighted runs, so it can be shown without rendering HTML
+export function splitSnippet(snippet: string): { text: string; highlighted: boolean }[] {
+  const parts: { text: string; highlighted: boolean }[] = [];
+  snippet.split(HIGHLIGHT_START).forEach((chunk, index) => {
+    if (index === 0) {
+      if (chunk) parts.push({ text: chunk, highlighted: false });
+      return;
+    }
+    const [match, rest] = chunk.split(HIGHLIGHT_END);
+    if (match) parts.push({ text: match, highlighted: true });
+    if (rest) parts.push({ text: rest, highlighted: false });
+  });
+  return parts;
+}
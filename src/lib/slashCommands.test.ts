@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SlashCommandContext, getSlashCommandSuggestions, parseSlashCommand, runSlashCommand } from './slashCommands';
+import { OpenRouterModel } from './openrouter';
+
+function createContext(overrides: Partial<SlashCommandContext> = {}): SlashCommandContext {
+  const models = ['openai/gpt-4o', 'openai/gpt-4o-mini', 'google/gemini-2.0-flash-001']
+    .map(id => ({ id, name: id }) as OpenRouterModel);
+
+  return {
+    models,
+    hasActiveChat: true,
+    setModel: vi.fn(),
+    setSystemPrompt: vi.fn(async () => {}),
+    clearChat: vi.fn(async () => {}),
+    exportChat: vi.fn(async () => {}),
+    setTitle: vi.fn(async () => {}),
+    sendMessage: vi.fn(async () => {}),
+    ...overrides,
+  };
+}
+
+describe('parseSlashCommand', () => {
+  it('splits the name from the rest of the line', () => {
+    expect(parseSlashCommand('/title  My chat ')).toEqual({ name: 'title', args: 'My chat' });
+  });
+
+  it('lowercases the name but keeps the arguments as typed', () => {
+    expect(parseSlashCommand('/SYSTEM Be Brief')).toEqual({ name: 'system', args: 'Be Brief' });
+  });
+
+  it('keeps line breaks inside the arguments', () => {
+    expect(parseSlashCommand('/system line one\nline two')).toEqual({ name: 'system', args: 'line one\nline two' });
+  });
+
+  it('accepts a bare slash and a command without arguments', () => {
+    expect(parseSlashCommand('/')).toEqual({ name: '', args: '' });
+    expect(parseSlashCommand('/clear')).toEqual({ name: 'clear', args: '' });
+  });
+
+  it('ignores text that is not a command', () => {
+    expect(parseSlashCommand('hello /model')).toBeNull();
+    expect(parseSlashCommand('')).toBeNull();
+  });
+});
+
+describe('runSlashCommand', () => {
+  it('reports unknown commands instead of sending them', async () => {
+    const context = createContext();
+    const result = await runSlashCommand('/modle gpt-4o', context);
+
+    expect(result).toMatchObject({ type: 'error' });
+    expect(result && result.text).toContain('Unknown command "/modle"');
+    expect(context.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('shows the usage when a required argument is missing', async () => {
+    const result = await runSlashCommand('/title', createContext());
+    expect(result).toEqual({ type: 'error', text: 'Usage: /title <text>' });
+  });
+
+  it('finds a model by its id without the provider', async () => {
+    const context = createContext();
+    await runSlashCommand('/model gpt-4o-mini', context);
+    expect(context.setModel).toHaveBeenCalledWith('openai/gpt-4o-mini');
+  });
+
+  it('needs an open chat for commands that change it', async () => {
+    const context = createContext({ hasActiveChat: false });
+    const result = await runSlashCommand('/export markdown', context);
+
+    expect(result).toMatchObject({ type: 'error' });
+    expect(context.exportChat).not.toHaveBeenCalled();
+  });
+});
+
+describe('getSlashCommandSuggestions', () => {
+  const context = createContext();
+
+  it('suggests nothing for ordinary text', () => {
+    expect(getSlashCommandSuggestions('hello', context)).toEqual([]);
+  });
+
+  it('lists commands matching the typed prefix', () => {
+    expect(getSlashCommandSuggestions('/s', context).map(s => s.value)).toEqual(['/system ']);
+    expect(getSlashCommandSuggestions('/', context)).toHaveLength(6);
+  });
+
+  it('drops a command without arguments once it is fully typed', () => {
+    expect(getSlashCommandSuggestions('/clear', context)).toEqual([]);
+  });
+
+  it('offers argument values matching what was typed so far', () => {
+    expect(getSlashCommandSuggestions('/model gpt-4o', context).map(s => s.value)).toEqual([
+      '/model openai/gpt-4o',
+      '/model openai/gpt-4o-mini',
+    ]);
+  });
+
+  it('drops the value that was typed exactly', () => {
+    expect(getSlashCommandSuggestions('/export json', context)).toEqual([]);
+  });
+
+  it('has nothing to offer for free-text arguments', () => {
+    expect(getSlashCommandSuggestions('/title ', context)).toEqual([]);
+  });
+});
@@ -0,0 +1,176 @@
+import { ExportFormat, EXPORT_FORMATS } from './chatExport';
+import { OpenRouterModel } from './openrouter';
+
+// What a command may do to the chat; ChatComponent provides the implementation
+export interface SlashCommandContext {
+  models: OpenRouterModel[];
+  hasActiveChat: boolean;
+  setModel: (modelId: string) => void;
+  setSystemPrompt: (prompt: string | null) => Promise<void>;
+  clearChat: () => Promise<void>;
+  exportChat: (format: ExportFormat) => Promise<void>;
+  setTitle: (title: string) => Promise<void>;
+  sendMessage: (text: string, useWebSearch: boolean) => Promise<void>;
+}
+
+export interface SlashCommandArg {
+  name: string;
+  required: boolean;
+  // Values offered by autocomplete
+  getOptions?: (context: SlashCommandContext) => string[];
+}
+
+// A short confirmation or error shown under the composer
+export interface SlashCommandResult {
+  type: 'success' | 'error';
+  text: string;
+}
+
+export interface SlashCommand {
+  name: string;
+  args: SlashCommandArg[];
+  description: string;
+  // Receives everything after the command name, trimmed
+  handler: (args: string, context: SlashCommandContext) => Promise<SlashCommandResult | void>;
+}
+
+export interface SlashCommandSuggestion {
+  label: string;
+  description: string;
+  // Composer text after picking the suggestion
+  value: string;
+}
+
+function formatUsage(command: SlashCommand): string {
+  return [`/${command.name}`, ...command.args.map(arg => (arg.required ? `<${arg.name}>` : `[${arg.name}]`))].join(' ');
+}
+
+function requireChat(context: SlashCommandContext): SlashCommandResult | null {
+  return context.hasActiveChat ? null : { type: 'error', text: 'Send a message first; this command needs an existing chat.' };
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  {
+    name: 'model',
+    args: [{ name: 'id', required: true, getOptions: context => context.models.map(model => model.id) }],
+    description: 'Switch the model for the next messages',
+    async handler(args, context) {
+      // Accept the full id or just the part after the provider
+      const model = context.models.find(m => m.id === args)
+        || context.models.find(m => m.id.split('/').pop() === args);
+      if (!model) {
+        return { type: 'error', text: `Unknown model "${args}". Start typing after /model to see available ids.` };
+      }
+      context.setModel(model.id);
+      return { type: 'success', text: `Model set to ${model.id}` };
+    },
+  },
+  {
+    name: 'system',
+    args: [{ name: 'text', required: false }],
+    description: 'Set this chat\'s system prompt, or clear it with no text',
+    async handler(args, context) {
+      await context.setSystemPrompt(args || null);
+      return { type: 'success', text: args ? 'System prompt updated' : 'System prompt cleared' };
+    },
+  },
+  {
+    name: 'clear',
+    args: [],
+    description: 'Start a new, empty chat',
+    async handler(_args, context) {
+      await context.clearChat();
+    },
+  },
+  {
+    name: 'export',
+    args: [{ name: 'format', required: true, getOptions: () => EXPORT_FORMATS.map(format => format.id) }],
+    description: 'Download this chat as markdown, json, html or openrouter',
+    async handler(args, context) {
+      const chatError = requireChat(context);
+      if (chatError) return chatError;
+
+      const format = EXPORT_FORMATS.find(f => f.id === args.toLowerCase());
+      if (!format) {
+        return { type: 'error', text: `Unknown format "${args}". Use one of: ${EXPORT_FORMATS.map(f => f.id).join(', ')}.` };
+      }
+      await context.exportChat(format.id);
+    },
+  },
+  {
+    name: 'title',
+    args: [{ name: 'text', required: true }],
+    description: 'Rename this chat',
+    async handler(args, context) {
+      const chatError = requireChat(context);
+      if (chatError) return chatError;
+
+      await context.setTitle(args);
+      return { type: 'success', text: `Renamed to "${args}"` };
+    },
+  },
+  {
+    name: 'websearch',
+    args: [{ name: 'query', required: true }],
+    description: 'Answer with results from a web search',
+    async handler(args, context) {
+      await context.sendMessage(args, true);
+    },
+  },
+];
+
+// Split "/name rest of line" into the command name and its arguments
+export function parseSlashCommand(text: string): { name: string; args: string } | null {
+  const match = text.trim().match(/^\/(\S*)\s*([\s\S]*)$/);
+  return match ? { name: match[1].toLowerCase(), args: match[2].trim() } : null;
+}
+
+// Run the command typed in the composer. Anything starting with "/" is treated as a command,
+// so a typo never reaches the model.
+export async function runSlashCommand(text: string, context: SlashCommandContext): Promise<SlashCommandResult | void> {
+  const parsed = parseSlashCommand(text);
+  if (!parsed) return;
+
+  const command = SLASH_COMMANDS.find(c => c.name === parsed.name);
+  if (!command) {
+    return {
+      type: 'error',
+      text: `Unknown command "/${parsed.name}". Available: ${SLASH_COMMANDS.map(c => `/${c.name}`).join(', ')}.`,
+    };
+  }
+
+  if (!parsed.args && command.args.some(arg => arg.required)) {
+    return { type: 'error', text: `Usage: ${formatUsage(command)}` };
+  }
+
+  return command.handler(parsed.args, context);
+}
+
+// Autocomplete for the composer: command names first, then argument values
+export function getSlashCommandSuggestions(text: string, context: SlashCommandContext): SlashCommandSuggestion[] {
+  if (!text.startsWith('/')) return [];
+
+  const parsed = parseSlashCommand(text);
+  if (!parsed) return [];
+
+  // Still typing the command name
+  if (!/\s/.test(text)) {
+    return SLASH_COMMANDS
+      .filter(command => command.name.startsWith(parsed.name))
+      .map(command => ({
+        label: formatUsage(command),
+        description: command.description,
+        value: `/${command.name}${command.args.length > 0 ? ' ' : ''}`,
+      }))
+      // A fully typed command without arguments is ready to run
+      .filter(suggestion => suggestion.value !== text);
+  }
+
+  const command = SLASH_COMMANDS.find(c => c.name === parsed.name);
+  const options = command?.args[0]?.getOptions?.(context) || [];
+  const query = parsed.args.toLowerCase();
+  return options
+    .filter(option => option.toLowerCase().includes(query) && option.toLowerCase() !== query)
+    .slice(0, 8)
+    .map(option => ({ label: option, description: '', value: `/${parsed.name} ${option}` }));
+}
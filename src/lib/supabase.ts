@@ -1,5 +1,29 @@
 import { createClient } from '@supabase/supabase-js';
-import { ChatMessage } from './openrouter';
+import { ChatMessage, WebSearchCitation } from './openrouter';
+import { ChatPathMessage, findLatestLeaf, getActivePath } from './messageTree';
+import { MessageUsage, UsageTotals } from './usage';
+import { GenerationParams, cleanGenerationParams, hasGenerationParams } from './generationParams';
+import { ChatFolder, ChatListFilter, ChatTag } from './chatOrganization';
+import { ToolCallRecord } from './tools/types';
+import { ContextTrim } from './contextWindow';
+import { ChatWebSearchSettings, WebSearchOptions, cleanChatWebSearchSettings } from './webSearch';
+import { WriteBuffer, createWriteBuffer } from './writeBuffer';
+import {
+  GENERATION_FLUSH_CHARS,
+  GENERATION_FLUSH_MS,
+  GENERATION_HEARTBEAT_MS,
+  GENERATION_STALE_MS,
+  GenerationProgress,
+  GenerationStatus,
+  formatStoppedContent,
+} from './generations';
+import {
+  ATTACHMENT_BUCKET,
+  ATTACHMENT_STORAGE,
+  ATTACHMENT_URL_TTL_SECONDS,
+  MessageAttachment,
+  readFileAsDataUrl,
+} from './attachments';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
@@ -43,6 +67,29 @@ export interface Chat {
   created_at: string;
   user_id?: string;
   latest_chat_timestamp?: string;
+  total_tokens?: number;
+  total_cost?: number;
+  pinned?: boolean;
+  folder_id?: string | null;
+  tag_ids?: string[];
+}
+
+// A chats_meta row as the database returns it
+export interface ChatMetaRow {
+  chatid: string;
+  title: string;
+  created_at: string;
+  user_id: string;
+  latest_chat_timestamp: string | null;
+  total_tokens: number | null;
+  total_cost: number | null;
+  active_leaf: string | null;
+  system_prompt?: string | null;
+  generation_params?: GenerationParams | null;
+  web_search?: ChatWebSearchSettings | null;
+  import_key?: string | null;
+  pinned?: boolean | null;
+  folder_id?: string | null;
 }
 
 export interface ChatMessageDB {
@@ -51,6 +98,21 @@ export interface ChatMessageDB {
   message: string;
   source: string;
   created_at?: string;
+  parent_id?: string | null;
+  fanout_group?: string | null;
+  fanout_selected?: boolean | null;
+  prompt_tokens?: number | null;
+  completion_tokens?: number | null;
+  cost?: number | null;
+  generation_params?: GenerationParams | null;
+  attachments?: MessageAttachment[] | null;
+  tool_calls?: ToolCallRecord[] | null;
+  citations?: WebSearchCitation[] | null;
+  web_search_options?: WebSearchOptions | null;
+  generation_status?: GenerationStatus | null;
+  generation_error?: string | null;
+  generation_updated_at?: string | null;
+  context_trim?: ContextTrim | null;
 }
 
 // Helper function to get current user ID
@@ -64,6 +126,17 @@ export async function getCurrentUserId(): Promise<string | null> {
   }
 }
 
+// Helper function to get the current session's access token for server routes
+export async function getAccessToken(): Promise<string | null> {
+  try {
+    const { data } = await supabase.auth.getSession();
+    return data.session?.access_token || null;
+  } catch (error) {
+    console.error('Error getting access token:', error);
+    return null;
+  }
+}
+
 // Create a new chat and return the chatId
 export async function createChat(title: string = 'New Chat'): Promise<string | null> {
   try {
@@ -91,106 +164,106 @@ export async function createChat(title: string = 'New Chat'): Promise<string | n
 export async function saveMessage(
   chatId: string, 
   message: string, 
-  source: string
+  source: string,
+  parentId: string | null = null,
+  attachments: MessageAttachment[] = []
 ): Promise<string | null> {
   try {
-    // Get the user ID
+    // Checks ownership, inserts, and makes the message the end of the active branch in one transaction
+    const { data, error } = await supabase.rpc('insert_message', {
+      target_chat: chatId,
+      message_text: message,
+      message_source: source,
+      parent: parentId,
+      message_attachments: attachments.length > 0 ? attachments : null
+    });
+    
+    if (error) throw error;
+    
+    return data || null;
+  } catch (error) {
+    console.error('Error saving message:', error);
+    return null;
+  }
+}
+
+// Store an image picked in the composer so a message can reference it
+export async function uploadAttachment(file: File): Promise<MessageAttachment | null> {
+  try {
+    const attachment: MessageAttachment = { type: 'image', name: file.name, mimeType: file.type, size: file.size };
+    if (ATTACHMENT_STORAGE === 'inline') {
+      return { ...attachment, dataUrl: await readFileAsDataUrl(file) };
+    }
+
     const userId = await getCurrentUserId();
     if (!userId) {
       console.error('User not authenticated');
       return null;
     }
-    
-    // First verify this user owns the chat
-    const { data: chatData, error: chatError } = await supabase
-      .from('chats_meta')
-      .select('chatid')
-      .eq('chatid', chatId)
-      .eq('user_id', userId)
-      .single();
-    
-    if (chatError || !chatData) {
-      console.error('Chat not found or user does not have access', chatError);
-      return null;
-    }
-    
-    // Update latest_chat_timestamp in the chats_meta table
-    const { error: updateError } = await supabase
-      .from('chats_meta')
-      .update({ latest_chat_timestamp: new Date().toISOString() })
-      .eq('chatid', chatId);
-      
-    if (updateError) {
-      console.error('Error updating latest_chat_timestamp:', updateError);
-    }
-    
-    // Now insert the message
-    const { data, error } = await supabase
-      .from('chats')
-      .insert([{ chatid: chatId, message, source }])
-      .select('messageid');
-    
-    if (error) {
-      console.error('Error inserting message:', error);
-      throw error;
-    }
-    
-    return data && data[0] ? data[0].messageid : null;
+
+    // Storage policies only allow paths inside the user's own folder
+    const path = `${userId}/${crypto.randomUUID()}-${file.name.replace(/[^\w.-]+/g, '_')}`;
+    const { error } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .upload(path, file, { contentType: file.type });
+
+    if (error) throw error;
+
+    return { ...attachment, path };
   } catch (error) {
-    console.error('Error saving message:', error);
+    console.error('Error uploading attachment:', error);
     return null;
   }
 }
 
+// URLs for showing attachments and for the provider to fetch them; empty where one can't be resolved
+export async function getAttachmentUrls(attachments: MessageAttachment[]): Promise<string[]> {
+  const paths = attachments.map(attachment => attachment.path).filter((path): path is string => !!path);
+  let signedUrls: Record<string, string> = {};
+
+  if (paths.length > 0) {
+    try {
+      const { data, error } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .createSignedUrls(paths, ATTACHMENT_URL_TTL_SECONDS);
+
+      if (error) throw error;
+
+      signedUrls = Object.fromEntries((data || []).map(item => [item.path, item.signedUrl]));
+    } catch (error) {
+      console.error('Error signing attachment URLs:', error);
+    }
+  }
+
+  return attachments.map(attachment => attachment.dataUrl || (attachment.path && signedUrls[attachment.path]) || '');
+}
+
 // Save a message to the database with streaming support
 export async function saveStreamingMessage(
   chatId: string,
   initialContent: string,
-  source: string
+  source: string,
+  parentId: string | null = null,
+  fanoutGroup?: string,
+  generationParams?: GenerationParams,
+  webSearchOptions?: WebSearchOptions | null,
+  contextTrim?: ContextTrim
 ): Promise<string | null> {
   try {
-    // Get the user ID
-    const userId = await getCurrentUserId();
-    if (!userId) {
-      console.error('User not authenticated');
-      return null;
-    }
-    
-    // First verify this user owns the chat
-    const { data: chatData, error: chatError } = await supabase
-      .from('chats_meta')
-      .select('chatid')
-      .eq('chatid', chatId)
-      .eq('user_id', userId)
-      .single();
-    
-    if (chatError || !chatData) {
-      console.error('Chat not found or user does not have access', chatError);
-      return null;
-    }
-    
-    // Update latest_chat_timestamp in the chats_meta table
-    const { error: updateError } = await supabase
-      .from('chats_meta')
-      .update({ latest_chat_timestamp: new Date().toISOString() })
-      .eq('chatid', chatId);
-      
-    if (updateError) {
-      console.error('Error updating latest_chat_timestamp:', updateError);
-    }
-    
-    // Now insert the message
-    const { data, error } = await supabase
-      .from('chats')
-      .insert([{ chatid: chatId, message: initialContent, source }])
-      .select('messageid');
+    const { data, error } = await supabase.rpc('insert_message', {
+      target_chat: chatId,
+      message_text: initialContent,
+      message_source: source,
+      parent: parentId,
+      message_fanout_group: fanoutGroup || null,
+      message_generation_params: hasGenerationParams(generationParams) ? generationParams : null,
+      message_web_search_options: webSearchOptions || null,
+      message_context_trim: contextTrim || null
+    });
     
-    if (error) {
-      console.error('Error inserting streaming message:', error);
-      throw error;
-    }
+    if (error) throw error;
     
-    return data && data[0] ? data[0].messageid : null;
+    return data || null;
   } catch (error) {
     console.error('Error saving streaming message:', error);
     return null;
@@ -200,176 +273,974 @@ export async function saveStreamingMessage(
 // Update an existing streaming message with additional content
 export async function updateStreamingMessage(
   messageId: string,
-  content: string
+  content: string,
+  usage?: MessageUsage,
+  toolResults?: ToolCallRecord[],
+  citations?: WebSearchCitation[]
 ): Promise<boolean> {
   try {
-    // Get the user ID
-    const userId = await getCurrentUserId();
-    if (!userId) {
-      console.error('User not authenticated');
-      return false;
-    }
-    
-    // First verify this user owns the chat that contains this message
-    const { data: messageData, error: messageError } = await supabase
-      .from('chats')
-      .select('chatid')
-      .eq('messageid', messageId)
-      .single();
-    
-    if (messageError || !messageData) {
-      console.error('Message not found', messageError);
-      return false;
-    }
-    
-    // Now verify the user owns the chat
-    const { data: chatData, error: chatError } = await supabase
-      .from('chats_meta')
-      .select('chatid')
-      .eq('chatid', messageData.chatid)
-      .eq('user_id', userId)
-      .single();
-    
-    if (chatError || !chatData) {
-      console.error('Chat not found or user does not have access', chatError);
-      return false;
-    }
+    // Token usage is recorded once the stream reports it
+    const { data, error } = await supabase.rpc('update_message', {
+      target_message: messageId,
+      message_text: content,
+      new_prompt_tokens: usage ? usage.promptTokens : null,
+      new_completion_tokens: usage ? usage.completionTokens : null,
+      new_cost: usage ? usage.cost : null,
+      new_tool_calls: toolResults && toolResults.length > 0 ? toolResults : null,
+      new_citations: citations && citations.length > 0 ? citations : null
+    });
     
-    // Now update the message
-    const { error } = await supabase
-      .from('chats')
-      .update({ message: content })
-      .eq('messageid', messageId);
+    if (error) throw error;
     
-    if (error) {
-      console.error('Error updating message:', error);
-      throw error;
+    if (!data) {
+      console.error('Message not found or user does not have access');
     }
-    
-    return true;
+    return !!data;
   } catch (error) {
     console.error('Error updating streaming message:', error);
     return false;
   }
 }
 
-// Get all messages for a chat
-export async function getChatMessages(chatId: string): Promise<ChatMessageDB[]> {
+export interface StreamingMessageUpdate {
+  content: string;
+  usage?: MessageUsage;
+  toolResults?: ToolCallRecord[];
+  citations?: WebSearchCitation[];
+}
+
+// Writers with saves still to make; flushed if the page is closed meanwhile
+const openMessageWriters = new Set<WriteBuffer<StreamingMessageUpdate>>();
+
+function flushMessageWriters() {
+  openMessageWriters.forEach(writer => writer.flush());
+}
+
+// Write-behind saves for a message this tab writes itself, on the same budget as server
+// jobs. Close it once the message is done, failed or stopped; closing flushes the last update.
+export function createMessageWriter(messageId: string): WriteBuffer<StreamingMessageUpdate> {
+  const buffer = createWriteBuffer<StreamingMessageUpdate>(async (update) => {
+    await updateStreamingMessage(messageId, update.content, update.usage, update.toolResults, update.citations);
+  }, {
+    intervalMs: GENERATION_FLUSH_MS,
+    maxPendingSize: GENERATION_FLUSH_CHARS,
+    size: update => update.content.length,
+  });
+
+  // Best effort: the browser may not wait for the request to finish
+  if (openMessageWriters.size === 0) {
+    window.addEventListener('beforeunload', flushMessageWriters);
+  }
+  openMessageWriters.add(buffer);
+
+  return {
+    update: buffer.update,
+    flush: buffer.flush,
+    close() {
+      openMessageWriters.delete(buffer);
+      if (openMessageWriters.size === 0) {
+        window.removeEventListener('beforeunload', flushMessageWriters);
+      }
+      return buffer.close();
+    },
+  };
+}
+
+// A running row the job stopped touching belongs to a job that died with its server
+export function isGenerationStale(message: ChatMessageDB): boolean {
+  return message.generation_status === 'running'
+    && !!message.generation_updated_at
+    && Date.now() - new Date(message.generation_updated_at).getTime() > GENERATION_STALE_MS;
+}
+
+function toGenerationProgress(message: ChatMessageDB): GenerationProgress {
+  const stale = isGenerationStale(message);
+  return {
+    content: stale ? formatStoppedContent(message.message || '', 'failed') : message.message || '',
+    status: stale ? 'failed' : message.generation_status || 'completed',
+    error: stale ? 'The generation stopped responding' : message.generation_error || null,
+    toolResults: message.tool_calls || [],
+    citations: message.citations || [],
+    usage: message.prompt_tokens !== null && message.prompt_tokens !== undefined
+      ? {
+          promptTokens: message.prompt_tokens,
+          completionTokens: message.completion_tokens || 0,
+          cost: message.cost !== null && message.cost !== undefined ? Number(message.cost) : null
+        }
+      : null,
+  };
+}
+
+// Follow a message a server job is writing, starting from the row as it is now.
+// Reports a failure if the job goes quiet for too long. Returns a function that stops following.
+export function subscribeToGeneration(
+  messageId: string,
+  onProgress: (progress: GenerationProgress) => void
+): () => void {
+  let latest: GenerationProgress | null = null;
+  let latestRowAt = 0;
+  let lastUpdate = Date.now();
+
+  const report = (progress: GenerationProgress) => {
+    latest = progress;
+    lastUpdate = Date.now();
+    onProgress(progress);
+  };
+
+  // Rows can arrive out of order when a catch-up read races a change; keep the newest
+  const reportRow = (row: ChatMessageDB) => {
+    const rowAt = row.generation_updated_at ? new Date(row.generation_updated_at).getTime() : 0;
+    if (latest && rowAt < latestRowAt) return;
+    latestRowAt = rowAt;
+    report(toGenerationProgress(row));
+  };
+
+  // Catch up on what was written before the channel joined, or while it was reconnecting
+  const catchUp = () => {
+    supabase
+      .from('chats')
+      .select('*')
+      .eq('messageid', messageId)
+      .single()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error getting generation progress:', error);
+          return;
+        }
+        if (data) reportRow(data);
+      });
+  };
+
+  // RLS policies will handle access control
+  const channel = supabase
+    .channel(`generation-${messageId}`)
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'chats', filter: `messageid=eq.${messageId}` },
+      (payload) => reportRow(payload.new as ChatMessageDB)
+    )
+    .subscribe((status) => {
+      if (status === 'SUBSCRIBED') catchUp();
+    });
+
+  const watchdog = setInterval(() => {
+    if (latest && latest.status !== 'running') return;
+    if (Date.now() - lastUpdate > GENERATION_STALE_MS) {
+      report({
+        content: formatStoppedContent(latest?.content || '', 'failed'),
+        status: 'failed',
+        error: 'The generation stopped responding',
+        toolResults: latest?.toolResults || [],
+        citations: latest?.citations || [],
+        usage: null,
+      });
+    }
+  }, GENERATION_HEARTBEAT_MS);
+
+  return () => {
+    clearInterval(watchdog);
+    supabase.removeChannel(channel).catch(console.error);
+  };
+}
+
+// Ask the job writing a message to stop; it notices the next time it saves progress
+export async function abortGeneration(messageId: string): Promise<boolean> {
   try {
     // RLS policies will handle access control
-    const { data, error } = await supabase
+    const { error } = await supabase
       .from('chats')
-      .select('*')
-      .eq('chatid', chatId)
-      .order('created_at', { ascending: true });
-    
+      .update({ generation_status: 'aborted' })
+      .eq('messageid', messageId)
+      .eq('generation_status', 'running');
+
     if (error) throw error;
-    
-    return data || [];
+
+    return true;
   } catch (error) {
-    console.error('Error getting chat messages:', error);
-    return [];
+    console.error('Error aborting generation:', error);
+    return false;
   }
 }
 
-// Get all chats for the current user
-export async function getUserChats(limit: number = 30, offset: number = 0): Promise<Chat[]> {
+// A row written by another tab or device. Deletes only carry the row's ID.
+export type RealtimeChange<T> =
+  | { event: 'INSERT'; row: T }
+  | { event: 'UPDATE'; row: T }
+  | { event: 'DELETE'; id: string };
+
+export interface RealtimeHandlers<T> {
+  onChange: (change: RealtimeChange<T>) => void;
+  // Runs each time the channel joins, including after a reconnect; changes made before
+  // then have to be read again
+  onSubscribed: () => void;
+  // Whether the caller has this row loaded. Realtime can't filter deletes by column, so
+  // every delete the user may see arrives; only those of loaded rows are passed on.
+  isLoaded: (id: string) => boolean;
+}
+
+// Follow messages added, changed or deleted in a chat. Returns a function that stops following.
+export function subscribeToChatMessages(
+  chatId: string,
+  { onChange, onSubscribed, isLoaded }: RealtimeHandlers<ChatMessageDB>
+): () => void {
+  // RLS policies will handle access control
+  const channel = supabase
+    .channel(`chat-messages-${chatId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'chats', filter: `chatid=eq.${chatId}` },
+      (payload) => onChange({ event: 'INSERT', row: payload.new as ChatMessageDB })
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'chats', filter: `chatid=eq.${chatId}` },
+      (payload) => onChange({ event: 'UPDATE', row: payload.new as ChatMessageDB })
+    )
+    .on(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'chats' },
+      (payload) => {
+        const messageId = (payload.old as ChatMessageDB).messageid;
+        if (messageId && isLoaded(messageId)) onChange({ event: 'DELETE', id: messageId });
+      }
+    )
+    .subscribe((status) => {
+      if (status === 'SUBSCRIBED') onSubscribed();
+    });
+
+  return () => {
+    supabase.removeChannel(channel).catch(console.error);
+  };
+}
+
+// A tag added to or taken off a chat
+export interface ChatTagLinkChange {
+  event: 'INSERT' | 'DELETE';
+  chatId: string;
+  tagId: string;
+}
+
+interface ChatTagLinkRow {
+  chatid: string;
+  tag_id: string;
+}
+
+// Follow the user's chat list: new chats, renames, pins, moves, tags, usage totals and
+// deletions. Returns a function that stops following.
+export function subscribeToUserChats(
+  userId: string,
+  {
+    onChange,
+    onSubscribed,
+    isLoaded,
+    onTagLinkChange,
+  }: RealtimeHandlers<Chat> & { onTagLinkChange: (change: ChatTagLinkChange) => void }
+): () => void {
+  const reportTagLink = (event: ChatTagLinkChange['event'], link: Partial<ChatTagLinkRow>) => {
+    if (link.chatid && link.tag_id && isLoaded(link.chatid)) {
+      onTagLinkChange({ event, chatId: link.chatid, tagId: link.tag_id });
+    }
+  };
+
+  // RLS policies will handle access control
+  const channel = supabase
+    .channel(`user-chats-${userId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'chats_meta', filter: `user_id=eq.${userId}` },
+      (payload) => onChange({ event: 'INSERT', row: toChat(payload.new as ChatListRow) })
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'chats_meta', filter: `user_id=eq.${userId}` },
+      (payload) => onChange({ event: 'UPDATE', row: toChat(payload.new as ChatListRow) })
+    )
+    .on(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'chats_meta' },
+      (payload) => {
+        const chatId = payload.old.chatid;
+        if (chatId && isLoaded(chatId)) onChange({ event: 'DELETE', id: chatId });
+      }
+    )
+    // Tag links have no user column to filter on; RLS and isLoaded keep other users' out
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'chat_tag_links' },
+      (payload) => reportTagLink('INSERT', payload.new as ChatTagLinkRow)
+    )
+    .on(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table: 'chat_tag_links' },
+      (payload) => reportTagLink('DELETE', payload.old as Partial<ChatTagLinkRow>)
+    )
+    .subscribe((status) => {
+      if (status === 'SUBSCRIBED') onSubscribed();
+    });
+
+  return () => {
+    supabase.removeChannel(channel).catch(console.error);
+  };
+}
+
+// Mark one answer of a fan-out group as the one that continues the thread
+export async function selectFanoutMessage(
+  chatId: string,
+  fanoutGroup: string,
+  messageId: string
+): Promise<boolean> {
   try {
-    // RLS policies will automatically filter to only show the current user's chats
-    const { data, error } = await supabase
-      .from('chats_meta')
-      .select('*')
-      .order('latest_chat_timestamp', { ascending: false })
-      .range(offset, offset + limit - 1);
-    
+    // Clearing the others and selecting this one happen in one transaction
+    const { data, error } = await supabase.rpc('select_fanout_message', {
+      target_chat: chatId,
+      target_group: fanoutGroup,
+      target_message: messageId
+    });
+
     if (error) throw error;
-    
-    return data?.map(chat => ({
-      chatId: chat.chatid,
-      title: chat.title,
-      created_at: chat.created_at,
-      user_id: chat.user_id,
-      latest_chat_timestamp: chat.latest_chat_timestamp
-    })) || [];
+
+    return !!data;
   } catch (error) {
-    console.error('Error getting user chats:', error);
-    return [];
+    console.error('Error selecting fan-out message:', error);
+    return false;
   }
 }
 
-// Update the chat title
-export async function updateChatTitle(chatId: string, title: string): Promise<boolean> {
+// Get every message of a chat, across all branches
+async function getChatMessageTree(chatId: string): Promise<ChatMessageDB[]> {
+  // RLS policies will handle access control
+  const { data, error } = await supabase
+    .from('chats')
+    .select('*')
+    .eq('chatid', chatId)
+    .order('created_at', { ascending: true });
+  
+  if (error) throw error;
+  
+  return data || [];
+}
+
+// Get the messages on the active branch of a chat
+export async function getChatMessages(chatId: string): Promise<ChatPathMessage[]> {
   try {
-    // RLS policies will handle access control
-    const { error } = await supabase
-      .from('chats_meta')
-      .update({ title })
-      .eq('chatid', chatId);
+    const [messages, { data: chatData, error: chatError }] = await Promise.all([
+      getChatMessageTree(chatId),
+      supabase
+        .from('chats_meta')
+        .select('active_leaf')
+        .eq('chatid', chatId)
+        .single(),
+    ]);
     
-    if (error) throw error;
+    if (chatError) throw chatError;
     
-    return true;
+    return getActivePath(messages, chatData?.active_leaf || null);
   } catch (error) {
-    console.error('Error updating chat title:', error);
-    return false;
+    console.error('Error getting chat messages:', error);
+    return [];
   }
 }
 
-// Delete a chat and all its messages
-export async function deleteChat(chatId: string): Promise<boolean> {
-  try {
-    // First delete all chat messages
-    // RLS policies will handle access control
-    const { error: messagesError } = await supabase
+export interface ChatExportData {
+  chat: Chat & {
+    system_prompt: string | null;
+    generation_params: GenerationParams | null;
+    active_leaf: string | null;
+  };
+  // Every message of the chat across all branches, oldest first
+  messages: ChatMessageDB[];
+}
+
+// Rows per request when reading a whole export, below PostgREST's default max-rows
+const EXPORT_PAGE_SIZE = 500;
+
+// Chat ids per request when exporting chosen chats, keeping the URL short
+const EXPORT_ID_BATCH_SIZE = 100;
+
+// Read every row a query matches, a page at a time. Throws when the rows read don't add up
+// to the count the database reports, rather than returning a silently truncated list.
+async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown; count: number | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  let total: number | null = null;
+
+  do {
+    const { data, error, count } = await fetchPage(rows.length, rows.length + EXPORT_PAGE_SIZE - 1);
+    if (error) throw error;
+    if (total === null) total = count;
+    if (!data || data.length === 0) break;
+    rows.push(...data);
+  } while (total !== null && rows.length < total);
+
+  if (total === null || rows.length !== total) {
+    throw new Error(`Expected ${total ?? 'an unknown number of'} rows but read ${rows.length}`);
+  }
+
+  return rows;
+}
+
+// Get chats with all of their messages for exporting; every chat of the user when no ids are given.
+// Throws instead of returning a partial export.
+export async function getChatsForExport(chatIds: string[] | null = null): Promise<ChatExportData[]> {
+  // RLS policies will automatically filter to the current user's chats
+  const fetchMeta = (ids: string[] | null) => fetchAllPages<ChatMetaRow>((from, to) => {
+    let query = supabase
+      .from('chats_meta')
+      .select('*', { count: 'exact' })
+      .order('latest_chat_timestamp', { ascending: false })
+      .order('chatid', { ascending: true });
+    if (ids) {
+      query = query.in('chatid', ids);
+    }
+    return query.range(from, to);
+  });
+
+  let metaData: ChatMetaRow[] = [];
+  if (chatIds) {
+    for (let start = 0; start < chatIds.length; start += EXPORT_ID_BATCH_SIZE) {
+      metaData.push(...await fetchMeta(chatIds.slice(start, start + EXPORT_ID_BATCH_SIZE)));
+    }
+    metaData = metaData.sort((a, b) => (b.latest_chat_timestamp || '').localeCompare(a.latest_chat_timestamp || ''));
+  } else {
+    metaData = await fetchMeta(null);
+  }
+
+  const chats: ChatExportData[] = [];
+  for (const chat of metaData) {
+    const messages = await fetchAllPages<ChatMessageDB>((from, to) => supabase
       .from('chats')
-      .delete()
-      .eq('chatid', chatId);
-    
-    if (messagesError) throw messagesError;
+      .select('*', { count: 'exact' })
+      .eq('chatid', chat.chatid)
+      .order('created_at', { ascending: true })
+      .order('messageid', { ascending: true })
+      .range(from, to));
+
+    chats.push({
+      chat: {
+        chatId: chat.chatid,
+        title: chat.title,
+        created_at: chat.created_at,
+        user_id: chat.user_id,
+        latest_chat_timestamp: chat.latest_chat_timestamp || undefined,
+        total_tokens: Number(chat.total_tokens || 0),
+        total_cost: Number(chat.total_cost || 0),
+        system_prompt: chat.system_prompt || null,
+        generation_params: chat.generation_params || null,
+        active_leaf: chat.active_leaf || null
+      },
+      messages
+    });
+  }
+
+  return chats;
+}
+
+// Switch the active branch to the newest thread under the given message
+export async function switchChatBranch(chatId: string, messageId: string): Promise<boolean> {
+  try {
+    const messages = await getChatMessageTree(chatId);
+    const activeLeaf = findLatestLeaf(messages, messageId);
     
-    // Then delete the chat metadata
     // RLS policies will handle access control
-    const { error: metaError } = await supabase
+    const { error } = await supabase
       .from('chats_meta')
-      .delete()
+      .update({ active_leaf: activeLeaf })
       .eq('chatid', chatId);
     
-    if (metaError) throw metaError;
+    if (error) throw error;
     
     return true;
   } catch (error) {
-    console.error('Error deleting chat:', error);
+    console.error('Error switching chat branch:', error);
     return false;
   }
 }
 
-// Delete a single message
-export async function deleteMessage(messageId: string): Promise<boolean> {
-  // Don't attempt to delete if messageId is undefined or empty
-  if (!messageId || messageId === 'undefined') {
-    console.error('Invalid message ID for deletion');
-    return false;
-  }
+// A chats_meta row with its tag links joined in
+type ChatListRow = ChatMetaRow & { all_tags?: { tag_id: string }[] };
+
+// Rows from Realtime carry no tag links, so their tag_ids come back empty
+function toChat(chat: ChatListRow): Chat {
+  return {
+    chatId: chat.chatid,
+    title: chat.title,
+    created_at: chat.created_at,
+    user_id: chat.user_id,
+    latest_chat_timestamp: chat.latest_chat_timestamp || undefined,
+    total_tokens: Number(chat.total_tokens || 0),
+    total_cost: Number(chat.total_cost || 0),
+    pinned: !!chat.pinned,
+    folder_id: chat.folder_id || null,
+    tag_ids: (chat.all_tags || []).map(link => link.tag_id)
+  };
+}
 
+// Get all chats for the current user, pinned chats first, optionally within one folder or tag
+export async function getUserChats(
+  limit: number = 30,
+  offset: number = 0,
+  filter: ChatListFilter | null = null
+): Promise<Chat[]> {
   try {
-    // RLS policies will handle access control
-    const { error } = await supabase
-      .from('chats')
-      .delete()
-      .eq('messageid', messageId);
+    // RLS policies will automatically filter to only show the current user's chats
+    let query = supabase
+      .from('chats_meta')
+      .select(filter?.type === 'tag' ? '*, chat_tag_links!inner(tag_id), all_tags:chat_tag_links(tag_id)' : '*, all_tags:chat_tag_links(tag_id)');
+    
+    if (filter?.type === 'folder') {
+      query = query.eq('folder_id', filter.folderId);
+    } else if (filter?.type === 'tag') {
+      query = query.eq('chat_tag_links.tag_id', filter.tagId);
+    }
+    
+    const { data, error } = await query
+      .order('pinned', { ascending: false })
+      .order('latest_chat_timestamp', { ascending: false })
+      .range(offset, offset + limit - 1)
+      .overrideTypes<ChatListRow[], { merge: false }>();
     
     if (error) throw error;
     
-    return true;
+    return data?.map(toChat) || [];
   } catch (error) {
-    console.error('Error deleting message:', error);
-    return false;
+    console.error('Error getting user chats:', error);
+    return [];
   }
 }
 
-// Get user's OpenRouter API key
-export async function getUserOpenRouterApiKey(): Promise<string | null> {
-  try {
+export interface ImportChatData {
+  title: string;
+  createdAt: string;
+  importKey: string;
+  systemPrompt: string | null;
+  // Oldest first; each message becomes the parent of the next
+  messages: { message: string; source: string; created_at: string }[];
+}
+
+// Rows per insert request when importing messages
+const IMPORT_BATCH_SIZE = 100;
+
+// Import keys per request, keeping the URL short for large exports
+const IMPORT_KEY_BATCH_SIZE = 100;
+
+// Which of the given import keys the current user has already imported. Throws when the
+// check fails: importing without it would duplicate chats.
+export async function getExistingImportKeys(importKeys: string[]): Promise<string[]> {
+  const existingKeys: string[] = [];
+
+  for (let start = 0; start < importKeys.length; start += IMPORT_KEY_BATCH_SIZE) {
+    // RLS policies will automatically filter to the current user's chats
+    const { data, error } = await supabase
+      .from('chats_meta')
+      .select('import_key')
+      .in('import_key', importKeys.slice(start, start + IMPORT_KEY_BATCH_SIZE));
+
+    if (error) throw error;
+
+    existingKeys.push(...(data || []).map(chat => chat.import_key));
+  }
+
+  return existingKeys;
+}
+
+// Create a chat from an import in a few batched inserts, keeping the original timestamps.
+// Ids are generated up front so each batch can point at parents written by the one before.
+export async function importChat(chat: ImportChatData, signal?: AbortSignal): Promise<string | null> {
+  let chatId: string | null = null;
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      console.error('User not authenticated');
+      return null;
+    }
+
+    const messageIds = chat.messages.map(() => crypto.randomUUID());
+    const rows = chat.messages.map((message, index) => ({
+      ...message,
+      messageid: messageIds[index],
+      parent_id: index > 0 ? messageIds[index - 1] : null
+    }));
+    const latestTimestamp = rows.length > 0 ? rows[rows.length - 1].created_at : chat.createdAt;
+
+    const { data, error } = await supabase
+      .from('chats_meta')
+      .insert([{
+        title: chat.title,
+        user_id: userId,
+        created_at: chat.createdAt,
+        latest_chat_timestamp: latestTimestamp,
+        system_prompt: chat.systemPrompt,
+        import_key: chat.importKey
+      }])
+      .select('chatid');
+    
+    if (error) throw error;
+    chatId = data && data[0] ? data[0].chatid : null;
+    if (!chatId) return null;
+
+    for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+      if (signal?.aborted) throw new Error('Import cancelled');
+
+      const { error: insertError } = await supabase
+        .from('chats')
+        .insert(rows.slice(start, start + IMPORT_BATCH_SIZE).map(row => ({ ...row, chatid: chatId })));
+      if (insertError) throw insertError;
+    }
+
+    if (rows.length > 0) {
+      const { error: leafError } = await supabase
+        .from('chats_meta')
+        .update({ active_leaf: messageIds[messageIds.length - 1] })
+        .eq('chatid', chatId);
+      if (leafError) throw leafError;
+    }
+
+    return chatId;
+  } catch (error) {
+    // Don't leave a half-written chat behind
+    if (chatId) {
+      await deleteChat(chatId);
+    }
+    if (!signal?.aborted) {
+      console.error('Error importing chat:', error);
+    }
+    return null;
+  }
+}
+
+// Pin a chat to the top of the sidebar, or unpin it
+export async function setChatPinned(chatId: string, pinned: boolean): Promise<boolean> {
+  try {
+    // RLS policies will handle access control
+    const { error } = await supabase
+      .from('chats_meta')
+      .update({ pinned })
+      .eq('chatid', chatId);
+    
+    if (error) throw error;
+    
+    return true;
+  } catch (error) {
+    console.error('Error pinning chat:', error);
+    return false;
+  }
+}
+
+// Move a chat into a folder, or out of any folder with null
+export async function moveChatToFolder(chatId: string, folderId: string | null): Promise<boolean> {
+  try {
+    // RLS policies will handle access control
+    const { error } = await supabase
+      .from('chats_meta')
+      .update({ folder_id: folderId })
+      .eq('chatid', chatId);
+    
+    if (error) throw error;
+    
+    return true;
+  } catch (error) {
+    console.error('Error moving chat to folder:', error);
+    return false;
+  }
+}
+
+// Get the current user's folders, alphabetically
+export async function getChatFolders(): Promise<ChatFolder[]> {
+  try {
+    // RLS policies will automatically filter to the current user's folders
+    const { data, error } = await supabase
+      .from('chat_folders')
+      .select('folder_id, name, created_at')
+      .order('name', { ascending: true });
+    
+    if (error) throw error;
+    
+    return data || [];
+  } catch (error) {
+    console.error('Error getting folders:', error);
+    return [];
+  }
+}
+
+export async function createChatFolder(name: string): Promise<ChatFolder | null> {
+  try {
+    const { data, error } = await supabase
+      .from('chat_folders')
+      .insert([{ name }])
+      .select('folder_id, name, created_at')
+      .single();
+    
+    if (error) throw error;
+    
+    return data;
+  } catch (error) {
+    console.error('Error creating folder:', error);
+    return null;
+  }
+}
+
+// Delete a folder; its chats stay, outside any folder
+export async function deleteChatFolder(folderId: string): Promise<boolean> {
+  try {
+    // RLS policies will handle access control
+    const { error } = await supabase
+      .from('chat_folders')
+      .delete()
+      .eq('folder_id', folderId);
+    
+    if (error) throw error;
+    
+    return true;
+  } catch (error) {
+    console.error('Error deleting folder:', error);
+    return false;
+  }
+}
+
+// Get the current user's tags, alphabetically
+export async function getChatTags(): Promise<ChatTag[]> {
+  try {
+    // RLS policies will automatically filter to the current user's tags
+    const { data, error } = await supabase
+      .from('chat_tags')
+      .select('tag_id, name, color')
+      .order('name', { ascending: true });
+    
+    if (error) throw error;
+    
+    return data || [];
+  } catch (error) {
+    console.error('Error getting tags:', error);
+    return [];
+  }
+}
+
+export async function createChatTag(name: string, color: string): Promise<ChatTag | null> {
+  try {
+    const { data, error } = await supabase
+      .from('chat_tags')
+      .insert([{ name, color }])
+      .select('tag_id, name, color')
+      .single();
+    
+    if (error) throw error;
+    
+    return data;
+  } catch (error) {
+    console.error('Error creating tag:', error);
+    return null;
+  }
+}
+
+// Delete a tag and take it off every chat
+export async function deleteChatTag(tagId: string): Promise<boolean> {
+  try {
+    // RLS policies will handle access control
+    const { error } = await supabase
+      .from('chat_tags')
+      .delete()
+      .eq('tag_id', tagId);
+    
+    if (error) throw error;
+    
+    return true;
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    return false;
+  }
+}
+
+// Put a tag on a chat or take it off
+export async function setChatTag(chatId: string, tagId: string, tagged: boolean): Promise<boolean> {
+  try {
+    // RLS policies will handle access control
+    const { error } = tagged
+      ? await supabase
+          .from('chat_tag_links')
+          .upsert([{ chatid: chatId, tag_id: tagId }], { onConflict: 'chatid,tag_id', ignoreDuplicates: true })
+      : await supabase
+          .from('chat_tag_links')
+          .delete()
+          .eq('chatid', chatId)
+          .eq('tag_id', tagId);
+    
+    if (error) throw error;
+    
+    return true;
+  } catch (error) {
+    console.error('Error updating chat tag:', error);
+    return false;
+  }
+}
+
+// Update the chat title
+export async function updateChatTitle(chatId: string, title: string): Promise<boolean> {
+  try {
+    // RLS policies will handle access control
+    const { error } = await supabase
+      .from('chats_meta')
+      .update({ title })
+      .eq('chatid', chatId);
+    
+    if (error) throw error;
+    
+    return true;
+  } catch (error) {
+    console.error('Error updating chat title:', error);
+    return false;
+  }
+}
+
+// Get a chat's own system prompt (null when it uses the user's default)
+export async function getChatSystemPrompt(chatId: string): Promise<string | null> {
+  try {
+    // RLS policies will handle access control
+    const { data, error } = await supabase
+      .from('chats_meta')
+      .select('system_prompt')
+      .eq('chatid', chatId)
+      .single();
+    
+    if (error) throw error;
+    
+    return data?.system_prompt || null;
+  } catch (error) {
+    console.error('Error getting chat system prompt:', error);
+    return null;
+  }
+}
+
+// Set or clear a chat's system prompt
+export async function updateChatSystemPrompt(chatId: string, systemPrompt: string | null): Promise<boolean> {
+  try {
+    // RLS policies will handle access control
+    const { error } = await supabase
+      .from('chats_meta')
+      .update({ system_prompt: systemPrompt })
+      .eq('chatid', chatId);
+    
+    if (error) throw error;
+    
+    return true;
+  } catch (error) {
+    console.error('Error updating chat system prompt:', error);
+    return false;
+  }
+}
+
+// Get a chat's own generation settings (null when it uses the user's defaults)
+export async function getChatGenerationParams(chatId: string): Promise<GenerationParams | null> {
+  try {
+    // RLS policies will handle access control
+    const { data, error } = await supabase
+      .from('chats_meta')
+      .select('generation_params')
+      .eq('chatid', chatId)
+      .single();
+    
+    if (error) throw error;
+    
+    return data?.generation_params ? cleanGenerationParams(data.generation_params) : null;
+  } catch (error) {
+    console.error('Error getting chat generation settings:', error);
+    return null;
+  }
+}
+
+// Set or clear a chat's generation settings
+export async function updateChatGenerationParams(chatId: string, params: GenerationParams | null): Promise<boolean> {
+  try {
+    // RLS policies will handle access control
+    const { error } = await supabase
+      .from('chats_meta')
+      .update({ generation_params: params })
+      .eq('chatid', chatId);
+    
+    if (error) throw error;
+    
+    return true;
+  } catch (error) {
+    console.error('Error updating chat generation settings:', error);
+    return false;
+  }
+}
+
+// Get a chat's web search switch and options, or null when it has never been set
+export async function getChatWebSearch(chatId: string): Promise<ChatWebSearchSettings | null> {
+  try {
+    // RLS policies will handle access control
+    const { data, error } = await supabase
+      .from('chats_meta')
+      .select('web_search')
+      .eq('chatid', chatId)
+      .single();
+    
+    if (error) throw error;
+    
+    return cleanChatWebSearchSettings(data?.web_search);
+  } catch (error) {
+    console.error('Error getting chat web search settings:', error);
+    return null;
+  }
+}
+
+export async function updateChatWebSearch(chatId: string, settings: ChatWebSearchSettings): Promise<boolean> {
+  try {
+    // RLS policies will handle access control
+    const { error } = await supabase
+      .from('chats_meta')
+      .update({ web_search: settings })
+      .eq('chatid', chatId);
+    
+    if (error) throw error;
+    
+    return true;
+  } catch (error) {
+    console.error('Error updating chat web search settings:', error);
+    return false;
+  }
+}
+
+// Delete a chat and all its messages
+export async function deleteChat(chatId: string): Promise<boolean> {
+  try {
+    // Messages and metadata go in one transaction, so a failure can't leave half a chat
+    const { data, error } = await supabase.rpc('delete_chat', { target_chat: chatId });
+    
+    if (error) throw error;
+    
+    return !!data;
+  } catch (error) {
+    console.error('Error deleting chat:', error);
+    return false;
+  }
+}
+
+// Delete a single message
+export async function deleteMessage(messageId: string): Promise<boolean> {
+  // Don't attempt to delete if messageId is undefined or empty
+  if (!messageId || messageId === 'undefined') {
+    console.error('Invalid message ID for deletion');
+    return false;
+  }
+
+  try {
+    // Its replies move to its parent in the same transaction, so none are left orphaned
+    const { data, error } = await supabase.rpc('delete_message', { target_message: messageId });
+    
+    if (error) throw error;
+    
+    return !!data;
+  } catch (error) {
+    console.error('Error deleting message:', error);
+    return false;
+  }
+}
+
+// Get the system prompt the user applies to chats without their own
+export async function getDefaultSystemPrompt(): Promise<string | null> {
+  try {
     const userId = await getCurrentUserId();
     if (!userId) {
       console.error('User not authenticated');
@@ -378,18 +1249,109 @@ export async function getUserOpenRouterApiKey(): Promise<string | null> {
 
     const { data, error } = await supabase
       .from('user')
-      .select('openrouter_api_key')
+      .select('default_system_prompt')
       .eq('user_id', userId)
       .single();
     
-    if (error) {
-      console.error('Error fetching user API key:', error);
+    if (error) throw error;
+    
+    return data?.default_system_prompt || null;
+  } catch (error) {
+    console.error('Error getting default system prompt:', error);
+    return null;
+  }
+}
+
+// Set or clear the user's default system prompt
+export async function updateDefaultSystemPrompt(systemPrompt: string | null): Promise<boolean> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      console.error('User not authenticated');
+      return false;
+    }
+
+    // Upsert: a user without a row yet would otherwise be a silent no-op
+    const { error } = await supabase
+      .from('user')
+      .upsert({ user_id: userId, default_system_prompt: systemPrompt }, { onConflict: 'user_id' });
+    
+    if (error) throw error;
+    
+    return true;
+  } catch (error) {
+    console.error('Error updating default system prompt:', error);
+    return false;
+  }
+}
+
+// Get the generation settings the user applies to chats without their own
+export async function getDefaultGenerationParams(): Promise<GenerationParams | null> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      console.error('User not authenticated');
       return null;
     }
+
+    const { data, error } = await supabase
+      .from('user')
+      .select('default_generation_params')
+      .eq('user_id', userId)
+      .single();
+    
+    if (error) throw error;
+    
+    return data?.default_generation_params ? cleanGenerationParams(data.default_generation_params) : null;
+  } catch (error) {
+    console.error('Error getting default generation settings:', error);
+    return null;
+  }
+}
+
+// Set or clear the user's default generation settings
+export async function updateDefaultGenerationParams(params: GenerationParams | null): Promise<boolean> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      console.error('User not authenticated');
+      return false;
+    }
+
+    // Upsert: a user without a row yet would otherwise be a silent no-op
+    const { error } = await supabase
+      .from('user')
+      .upsert({ user_id: userId, default_generation_params: params }, { onConflict: 'user_id' });
+    
+    if (error) throw error;
+    
+    return true;
+  } catch (error) {
+    console.error('Error updating default generation settings:', error);
+    return false;
+  }
+}
+
+// Get the current user's token usage and cost for the calendar month so far
+export async function getMonthlyUsage(): Promise<UsageTotals | null> {
+  try {
+    const monthStart = new Date();
+    monthStart.setDate(1);
+    monthStart.setHours(0, 0, 0, 0);
+
+    const { data, error } = await supabase
+      .rpc('get_usage_since', { since: monthStart.toISOString() })
+      .single<{ prompt_tokens: number; completion_tokens: number; cost: number }>();
+    
+    if (error) throw error;
     
-    return data?.openrouter_api_key || null;
+    return {
+      promptTokens: Number(data?.prompt_tokens || 0),
+      completionTokens: Number(data?.completion_tokens || 0),
+      cost: Number(data?.cost || 0)
+    };
   } catch (error) {
-    console.error('Error getting user API key:', error);
+    console.error('Error getting monthly usage:', error);
     return null;
   }
 }
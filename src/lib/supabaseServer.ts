@@ -0,0 +1,316 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { decryptApiKey, encryptApiKey, maskApiKey } from './apiKeyCrypto';
+import { PROVIDER_IDS, ProviderId } from './providers/types';
+import { GenerationStatus } from './generations';
+import { MessageUsage } from './usage';
+import { ToolCallRecord } from './tools/types';
+import { WebSearchCitation } from './openrouter';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+
+export interface AuthenticatedRequest {
+  supabase: SupabaseClient;
+  userId: string;
+}
+
+// Read the Supabase access token the browser sends as a Bearer token
+function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('Authorization') || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
+
+// Verify the caller's session and return a client that acts as that user,
+// so RLS policies apply to every query made on their behalf
+export async function authenticateRequest(request: Request): Promise<AuthenticatedRequest | null> {
+  const accessToken = getBearerToken(request);
+  if (!accessToken) return null;
+
+  const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+    global: {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'X-Client-Info': 'orchestrate-chat-server'
+      },
+    },
+  });
+
+  try {
+    const { data, error } = await supabase.auth.getUser(accessToken);
+    if (error || !data.user) return null;
+
+    return { supabase, userId: data.user.id };
+  } catch (error) {
+    console.error('Error authenticating request:', error);
+    return null;
+  }
+}
+
+// Get a user's OpenRouter API key; this never leaves the server.
+// Signed-in users can't read the key columns, so this reads them with the service role.
+export async function getOpenRouterApiKey(auth: AuthenticatedRequest): Promise<string | null> {
+  try {
+    const serviceSupabase = createServiceSupabaseClient();
+    if (!serviceSupabase) {
+      console.error('SUPABASE_SERVICE_ROLE_KEY is not set; API keys cannot be read');
+      return null;
+    }
+
+    const { data, error } = await serviceSupabase
+      .from('user')
+      .select('openrouter_api_key, openrouter_api_key_encrypted')
+      .eq('user_id', auth.userId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching user API key:', error);
+      return null;
+    }
+
+    if (data?.openrouter_api_key_encrypted) {
+      return decryptApiKey(data.openrouter_api_key_encrypted);
+    }
+
+    // Keys saved before encryption was introduced and missed by scripts/encrypt-api-keys.mjs
+    if (data?.openrouter_api_key) {
+      await saveOpenRouterApiKey(auth, data.openrouter_api_key);
+      return data.openrouter_api_key;
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Error getting user API key:', error);
+    return null;
+  }
+}
+
+// Get the masked preview of a user's stored key, without decrypting it
+export async function getOpenRouterApiKeyPreview(auth: AuthenticatedRequest): Promise<string | null> {
+  try {
+    const { data, error } = await auth.supabase
+      .from('user')
+      .select('openrouter_api_key_preview')
+      .eq('user_id', auth.userId)
+      .single();
+
+    if (error) {
+      console.error('Error fetching user API key preview:', error);
+      return null;
+    }
+
+    return data?.openrouter_api_key_preview || null;
+  } catch (error) {
+    console.error('Error getting user API key preview:', error);
+    return null;
+  }
+}
+
+// Store a user's key encrypted at rest, replacing any previous one
+export async function saveOpenRouterApiKey(auth: AuthenticatedRequest, apiKey: string): Promise<boolean> {
+  try {
+    const { error } = await auth.supabase
+      .from('user')
+      .upsert({
+        user_id: auth.userId,
+        openrouter_api_key: null,
+        openrouter_api_key_encrypted: encryptApiKey(apiKey),
+        openrouter_api_key_preview: maskApiKey(apiKey),
+      }, { onConflict: 'user_id' });
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error saving user API key:', error);
+    return false;
+  }
+}
+
+// Remove a user's key entirely
+export async function removeOpenRouterApiKey(auth: AuthenticatedRequest): Promise<boolean> {
+  try {
+    const { error } = await auth.supabase
+      .from('user')
+      .update({
+        openrouter_api_key: null,
+        openrouter_api_key_encrypted: null,
+        openrouter_api_key_preview: null,
+      })
+      .eq('user_id', auth.userId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error removing user API key:', error);
+    return false;
+  }
+}
+
+export interface ModelProviderConfig {
+  provider: ProviderId;
+  baseUrl: string | null;
+  // USD per token, for pricing usage the provider reports without a cost
+  pricing: { prompt: number; completion: number } | null;
+}
+
+// Look up which provider serves a model. Models missing from avail_models go to
+// OpenRouter, except "mock/..." ids which always use the offline mock.
+export async function getModelProviderConfig(
+  auth: AuthenticatedRequest,
+  modelId: string
+): Promise<ModelProviderConfig> {
+  const fallback: ModelProviderConfig = {
+    provider: modelId.startsWith('mock/') ? 'mock' : 'openrouter',
+    baseUrl: null,
+    pricing: null,
+  };
+
+  try {
+    const { data, error } = await auth.supabase
+      .from('avail_models')
+      .select('provider, provider_base_url, pricing_prompt, pricing_completion')
+      .eq('model_id', modelId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data || !PROVIDER_IDS.includes(data.provider)) return fallback;
+
+    return {
+      provider: data.provider,
+      baseUrl: data.provider_base_url || null,
+      pricing: data.pricing_prompt !== null && data.pricing_completion !== null
+        ? { prompt: Number(data.pricing_prompt), completion: Number(data.pricing_completion) }
+        : null,
+    };
+  } catch (error) {
+    console.error('Error getting model provider:', error);
+    return fallback;
+  }
+}
+
+export interface GenerationUpdate {
+  content: string;
+  status: GenerationStatus;
+  error?: string;
+  usage?: MessageUsage;
+  toolResults: ToolCallRecord[];
+  citations: WebSearchCitation[];
+}
+
+// Mark an empty assistant message as being written by a job. Fails for messages the
+// caller can't see, for ones that already have a generation, and for user messages or
+// answers that already have text, so a job can never overwrite them.
+export async function claimGeneration(auth: AuthenticatedRequest, messageId: string): Promise<boolean> {
+  try {
+    // RLS policies will handle access control
+    const { data, error } = await auth.supabase
+      .from('chats')
+      .update({
+        generation_status: 'running',
+        generation_error: null,
+        generation_updated_at: new Date().toISOString(),
+      })
+      .eq('messageid', messageId)
+      .is('generation_status', null)
+      .eq('message', '')
+      .neq('source', 'user')
+      .select('messageid');
+
+    if (error) throw error;
+
+    return !!data && data.length > 0;
+  } catch (error) {
+    console.error('Error claiming generation:', error);
+    return false;
+  }
+}
+
+// Save a running job's progress. Returns false once the row has stopped running, which is
+// how a stop from any device reaches the job; a failed write keeps the job going.
+export async function saveGenerationProgress(
+  auth: AuthenticatedRequest,
+  messageId: string,
+  update: GenerationUpdate
+): Promise<boolean> {
+  try {
+    const { data, error } = await auth.supabase
+      .from('chats')
+      .update({
+        message: update.content,
+        tool_calls: update.toolResults.length > 0 ? update.toolResults : null,
+        citations: update.citations.length > 0 ? update.citations : null,
+        generation_updated_at: new Date().toISOString(),
+      })
+      .eq('messageid', messageId)
+      .eq('generation_status', 'running')
+      .select('messageid');
+
+    if (error) throw error;
+
+    return !!data && data.length > 0;
+  } catch (error) {
+    console.error('Error saving generation progress:', error);
+    return true;
+  }
+}
+
+// Write the final answer, its usage and how the job ended
+export async function finishGeneration(
+  auth: AuthenticatedRequest,
+  messageId: string,
+  update: GenerationUpdate
+): Promise<boolean> {
+  try {
+    const { error } = await auth.supabase
+      .from('chats')
+      .update({
+        message: update.content,
+        tool_calls: update.toolResults.length > 0 ? update.toolResults : null,
+        citations: update.citations.length > 0 ? update.citations : null,
+        ...(update.usage
+          ? {
+              prompt_tokens: update.usage.promptTokens,
+              completion_tokens: update.usage.completionTokens,
+              cost: update.usage.cost
+            }
+          : {}),
+        generation_status: update.status,
+        generation_error: update.error || null,
+        generation_updated_at: new Date().toISOString(),
+      })
+      .eq('messageid', messageId);
+
+    if (error) throw error;
+
+    return true;
+  } catch (error) {
+    console.error('Error finishing generation:', error);
+    return false;
+  }
+}
+
+// Client with the service role, for jobs that write shared tables such as
+// avail_models and for reading API keys. It bypasses RLS, so only use it behind
+// its own authorization.
+export function createServiceSupabaseClient(): SupabaseClient | null {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) return null;
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+    global: {
+      headers: {
+        'X-Client-Info': 'orchestrate-chat-server'
+      },
+    },
+  });
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression } from './calculator';
+
+describe('evaluateExpression', () => {
+  it('applies operator precedence', () => {
+    expect(evaluateExpression('2 + 3 * 4')).toBe(14);
+    expect(evaluateExpression('(2 + 3) * 4')).toBe(20);
+    expect(evaluateExpression('10 - 4 - 3')).toBe(3);
+    expect(evaluateExpression('12 / 3 / 2')).toBe(2);
+    expect(evaluateExpression('7 % 4 * 2')).toBe(6);
+  });
+
+  it('makes ^ and ** right-associative', () => {
+    expect(evaluateExpression('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluateExpression('2 ** 3 ** 2')).toBe(512);
+  });
+
+  it('binds unary minus looser than ^ but tighter than *', () => {
+    expect(evaluateExpression('-2 ^ 2')).toBe(-4);
+    expect(evaluateExpression('(-2) ^ 2')).toBe(4);
+    expect(evaluateExpression('2 ^ -1')).toBe(0.5);
+    expect(evaluateExpression('3 * -2')).toBe(-6);
+    expect(evaluateExpression('--3')).toBe(3);
+    expect(evaluateExpression('+3 - -2')).toBe(5);
+  });
+
+  it('reads decimals and exponents', () => {
+    expect(evaluateExpression('.5 + 1.25')).toBe(1.75);
+    expect(evaluateExpression('1.5e3')).toBe(1500);
+    expect(evaluateExpression('2E-2')).toBe(0.02);
+  });
+
+  it('knows its constants and functions', () => {
+    expect(evaluateExpression('sqrt(16) + abs(-2)')).toBe(6);
+    expect(evaluateExpression('log(1000)')).toBe(3);
+    expect(evaluateExpression('ln(e)')).toBe(1);
+    expect(evaluateExpression('round(PI * 100)')).toBe(314);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => evaluateExpression('2 +')).toThrow('Unexpected end of expression');
+    expect(() => evaluateExpression('(1 + 2')).toThrow('Expected ")"');
+    expect(() => evaluateExpression('1 + 2)')).toThrow('Unexpected ")"');
+    expect(() => evaluateExpression('2 $ 3')).toThrow('Unexpected character "$"');
+    expect(() => evaluateExpression('foo(2)')).toThrow('Unknown name "foo"');
+    expect(() => evaluateExpression('sqrt 4')).toThrow('Expected "("');
+    expect(() => evaluateExpression('')).toThrow('Unexpected end of expression');
+  });
+
+  it('does not reach into object properties', () => {
+    expect(() => evaluateExpression('constructor(1)')).toThrow('Unknown name "constructor"');
+    expect(() => evaluateExpression('tostring')).toThrow('Unknown name "tostring"');
+  });
+});
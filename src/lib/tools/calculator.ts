@@ -0,0 +1,145 @@
+import { ChatTool } from './types';
+
+const FUNCTIONS: Record<string, (value: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+const TOKEN = /^\s*(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|[a-z]+|\*\*|[-+*/%^(),])/;
+
+function tokenize(expression: string): string[] {
+  const tokens: string[] = [];
+  let rest = expression.toLowerCase().trim();
+  while (rest) {
+    const match = rest.match(TOKEN);
+    if (!match) {
+      throw new Error(`Unexpected character "${rest.trim()[0]}"`);
+    }
+    tokens.push(match[1] === '**' ? '^' : match[1]);
+    rest = rest.slice(match[0].length).trim();
+  }
+  return tokens;
+}
+
+// Recursive-descent evaluator, so model-supplied input never reaches eval.
+// Precedence from low to high: + -, * / %, unary minus, ^ (right-associative).
+export function evaluateExpression(expression: string): number {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}"`);
+  };
+
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseProduct() : value - parseProduct();
+    }
+    return value;
+  };
+
+  const parseProduct = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = parseUnary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      next();
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): number => {
+    const base = parseAtom();
+    if (peek() === '^') {
+      next();
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  const parseAtom = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error('Unexpected end of expression');
+
+    if (token === '(') {
+      const value = parseSum();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+    if (Object.prototype.hasOwnProperty.call(CONSTANTS, token)) return CONSTANTS[token];
+    if (Object.prototype.hasOwnProperty.call(FUNCTIONS, token)) {
+      expect('(');
+      const value = parseSum();
+      expect(')');
+      return FUNCTIONS[token](value);
+    }
+    throw new Error(`Unknown name "${token}"`);
+  };
+
+  const result = parseSum();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position]}"`);
+  }
+  return result;
+}
+
+export const calculatorTool: ChatTool = {
+  name: 'calculator',
+  label: 'Calculator',
+  description: 'Evaluate an arithmetic expression exactly instead of estimating it. Supports + - * / % ^, parentheses, '
+    + 'pi, e and the functions sqrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, exp, ln and log (base 10).',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: {
+        type: 'string',
+        description: 'The expression to evaluate, e.g. "(3.5 + 2) * 4 ^ 2".',
+      },
+    },
+    required: ['expression'],
+  },
+  async run(args) {
+    if (typeof args.expression !== 'string' || !args.expression.trim()) {
+      throw new Error('expression is required');
+    }
+
+    const result = evaluateExpression(args.expression);
+    if (!Number.isFinite(result)) {
+      throw new Error('The result is not a finite number');
+    }
+    return String(result);
+  },
+};
@@ -0,0 +1,33 @@
+import { ChatTool } from './types';
+
+export const currentTimeTool: ChatTool = {
+  name: 'current_time',
+  label: 'Current time',
+  description: 'Get the current date and time, optionally in a given IANA time zone such as "Europe/Berlin".',
+  parameters: {
+    type: 'object',
+    properties: {
+      timezone: {
+        type: 'string',
+        description: 'IANA time zone name. Defaults to the user\'s own time zone.',
+      },
+    },
+  },
+  async run(args, context) {
+    const now = new Date();
+    const timeZone = typeof args.timezone === 'string' && args.timezone ? args.timezone : context.timeZone;
+
+    let local: string;
+    try {
+      local = now.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' });
+    } catch (error) {
+      throw new Error(`Unknown time zone "${timeZone}"`);
+    }
+
+    return JSON.stringify({
+      local,
+      timezone: timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone,
+      iso: now.toISOString(),
+    });
+  },
+};
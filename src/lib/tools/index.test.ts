@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { mergeToolCallDeltas } from './index';
+
+describe('mergeToolCallDeltas', () => {
+  it('joins argument pieces streamed under the same index', () => {
+    let calls = mergeToolCallDeltas([], [{ index: 0, id: 'call_1', function: { name: 'calculator', arguments: '' } }]);
+    calls = mergeToolCallDeltas(calls, [{ index: 0, function: { arguments: '{"expr' } }]);
+    calls = mergeToolCallDeltas(calls, [{ index: 0, function: { arguments: 'ession":"1+1"}' } }]);
+
+    expect(calls).toEqual([
+      { id: 'call_1', type: 'function', function: { name: 'calculator', arguments: '{"expression":"1+1"}' } },
+    ]);
+  });
+
+  it('keeps parallel calls apart by index', () => {
+    const calls = mergeToolCallDeltas(
+      mergeToolCallDeltas([], [
+        { index: 0, id: 'call_1', function: { name: 'calculator', arguments: '{"expression":' } },
+        { index: 1, id: 'call_2', function: { name: 'current_time', arguments: '{}' } },
+      ]),
+      [{ index: 0, function: { arguments: '"2"}' } }]
+    );
+
+    expect(calls.map(call => [call.id, call.function.name, call.function.arguments])).toEqual([
+      ['call_1', 'calculator', '{"expression":"2"}'],
+      ['call_2', 'current_time', '{}'],
+    ]);
+  });
+
+  it('keeps the id from the first chunk when later ones leave it out', () => {
+    const calls = mergeToolCallDeltas(
+      [{ id: 'call_1', type: 'function', function: { name: 'calculator', arguments: '' } }],
+      [{ index: 0, function: { arguments: '{}' } }]
+    );
+    expect(calls[0].id).toBe('call_1');
+  });
+
+  it('returns the calls unchanged when a chunk has no deltas', () => {
+    const calls = [{ id: 'call_1', type: 'function' as const, function: { name: 'calculator', arguments: '{}' } }];
+    expect(mergeToolCallDeltas(calls)).toEqual(calls);
+    expect(mergeToolCallDeltas(calls, [])).toEqual(calls);
+  });
+
+  it('does not change the calls it was given', () => {
+    const calls = [{ id: 'call_1', type: 'function' as const, function: { name: 'calculator', arguments: '{' } }];
+    mergeToolCallDeltas(calls, [{ index: 0, function: { arguments: '}' } }]);
+    expect(calls[0].function.arguments).toBe('{');
+  });
+
+  it('skips indexes no delta has filled', () => {
+    const calls = mergeToolCallDeltas([], [{ index: 1, id: 'call_2', function: { name: 'calculator', arguments: '{}' } }]);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].id).toBe('call_2');
+  });
+});
@@ -0,0 +1,72 @@
+import { ChatTool, ToolCall, ToolCallDelta, ToolCallRecord, ToolContext, ToolDefinition } from './types';
+import { calculatorTool } from './calculator';
+import { currentTimeTool } from './currentTime';
+import { searchChatsTool } from './searchChats';
+
+export type {
+  ChatTool,
+  ToolCall,
+  ToolCallDelta,
+  ToolCallRecord,
+  ToolContext,
+  ToolDefinition,
+  ToolName,
+} from './types';
+
+export const CHAT_TOOLS: ChatTool[] = [
+  calculatorTool,
+  currentTimeTool,
+  searchChatsTool,
+];
+
+// Rounds of tool calls allowed per answer, so a confused model can't loop forever
+export const MAX_TOOL_ROUNDS = 5;
+
+// Tools by name, skipping names the registry doesn't know
+export function getToolsByName(names: string[]): ChatTool[] {
+  return CHAT_TOOLS.filter(tool => names.includes(tool.name));
+}
+
+export function getToolDefinitions(tools: ChatTool[]): ToolDefinition[] {
+  return tools.map(tool => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+}
+
+// Fold one chunk's tool-call deltas into the calls collected so far. The id and name
+// come first; the arguments string arrives in pieces under the same index.
+export function mergeToolCallDeltas(calls: ToolCall[], deltas: ToolCallDelta[] = []): ToolCall[] {
+  const merged = [...calls];
+  deltas.forEach(delta => {
+    const existing = merged[delta.index];
+    merged[delta.index] = {
+      id: delta.id || existing?.id || '',
+      type: 'function',
+      function: {
+        name: (existing?.function.name || '') + (delta.function?.name || ''),
+        arguments: (existing?.function.arguments || '') + (delta.function?.arguments || ''),
+      },
+    };
+  });
+  return merged.filter(Boolean);
+}
+
+// Run a call against the registry. Failures are returned to the model as the result
+// so it can correct itself, rather than ending the answer.
+export async function runToolCall(call: ToolCall, tools: ChatTool[], context: ToolContext): Promise<ToolCallRecord> {
+  const tool = tools.find(candidate => candidate.name === call.function.name);
+  if (!tool) {
+    return { call, result: `Error: unknown tool "${call.function.name}"`, isError: true };
+  }
+
+  try {
+    const args = call.function.arguments.trim() ? JSON.parse(call.function.arguments) : {};
+    return { call, result: await tool.run(args && typeof args === 'object' ? args : {}, context) };
+  } catch (error) {
+    const message = error instanceof SyntaxError
+      ? 'arguments are not valid JSON'
+      : error instanceof Error ? error.message : String(error);
+    return { call, result: `Error: ${message}`, isError: true };
+  }
+}
@@ -0,0 +1,41 @@
+import { ChatTool } from './types';
+import { DEFAULT_SEARCH_FILTERS, searchMessages, splitSnippet } from '../search';
+
+const DEFAULT_RESULTS = 5;
+const MAX_RESULTS = 20;
+
+export const searchChatsTool: ChatTool = {
+  name: 'search_chats',
+  label: 'Search my chats',
+  description: 'Full-text search over the user\'s earlier conversations in this app. Returns matching snippets with chat titles and dates.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'Words to search for. Supports "quoted phrases", OR and -exclusions.',
+      },
+      limit: {
+        type: 'integer',
+        description: `How many results to return, at most ${MAX_RESULTS}.`,
+      },
+    },
+    required: ['query'],
+  },
+  async run(args, { supabase }) {
+    const query = typeof args.query === 'string' ? args.query.trim() : '';
+    if (!query) {
+      throw new Error('query is required');
+    }
+
+    const limit = typeof args.limit === 'number' ? Math.min(Math.max(1, Math.floor(args.limit)), MAX_RESULTS) : DEFAULT_RESULTS;
+    const results = await searchMessages(supabase, query, DEFAULT_SEARCH_FILTERS, limit);
+
+    return JSON.stringify(results.map(result => ({
+      chat: result.title,
+      from: result.messageId ? (result.source === 'user' ? 'user' : 'assistant') : 'chat title',
+      date: result.created_at,
+      snippet: splitSnippet(result.snippet).map(part => part.text).join(''),
+    })));
+  },
+};
@@ -0,0 +1,59 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export type ToolName = 'calculator' | 'current_time' | 'search_chats';
+
+// A tool call as the model sends it; arguments is a JSON string
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+// One streamed piece of a tool call; fields arrive spread over several chunks
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+// A finished call and what the tool returned, kept on the message for display
+export interface ToolCallRecord {
+  call: ToolCall;
+  result: string;
+  isError?: boolean;
+}
+
+// The OpenAI-style tool definition sent with the request
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+// What a tool gets from the generation job: a client acting as the user, so RLS applies
+export interface ToolContext {
+  supabase: SupabaseClient;
+  // The IANA time zone of the user's browser; the server's own zone is rarely theirs
+  timeZone?: string;
+}
+
+// A tool the app can run on the model's behalf. run gets the parsed arguments and
+// returns the text handed back to the model; it may throw with a message for the model.
+export interface ChatTool {
+  name: ToolName;
+  label: string;
+  description: string;
+  // JSON schema of the arguments object
+  parameters: Record<string, unknown>;
+  run(args: Record<string, unknown>, context: ToolContext): Promise<string>;
+}
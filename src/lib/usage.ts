@@ -0,0 +1,60 @@
+import { OpenRouterModel } from './openrouter';
+
+// Usage as reported in the final chunk of a stream
+export interface ChunkUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens?: number;
+  cost?: number; // OpenRouter reports what it charged, in USD
+}
+
+export interface MessageUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number | null;
+}
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+// Prefer the provider's reported cost; otherwise price the tokens from the model catalog
+export function buildMessageUsage(usage: ChunkUsage, model?: OpenRouterModel): MessageUsage {
+  let cost: number | null = null;
+  if (typeof usage.cost === 'number') {
+    cost = usage.cost;
+  } else if (model?.pricing) {
+    cost = usage.prompt_tokens * model.pricing.prompt + usage.completion_tokens * model.pricing.completion;
+  }
+
+  return {
+    promptTokens: usage.prompt_tokens || 0,
+    completionTokens: usage.completion_tokens || 0,
+    cost,
+  };
+}
+
+// e.g. 950 -> "950", 12345 -> "12.3k", 2500000 -> "2.5M"
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+// Small amounts keep enough digits to stay meaningful
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0.00';
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
+
+export function formatMessageUsage(usage: MessageUsage): string {
+  const parts = [
+    `${formatTokens(usage.promptTokens)} in`,
+    `${formatTokens(usage.completionTokens)} out`,
+  ];
+  if (usage.cost !== null) parts.push(formatCost(usage.cost));
+  return parts.join(' · ');
+}
@@ -0,0 +1,129 @@
+// How much retrieved text the provider hands the model per search
+export type SearchContextSize = 'low' | 'medium' | 'high';
+
+export const SEARCH_CONTEXT_SIZES: SearchContextSize[] = ['low', 'medium', 'high'];
+
+// Options for one web-search request. Unset fields use the build-time defaults.
+export interface WebSearchOptions {
+  maxResults?: number;
+  contextSize?: SearchContextSize;
+  // Replaces the provider's prompt that introduces the search results to the model
+  searchPrompt?: string;
+  // Best effort: passed to the search engine, which may not support domain filtering
+  includeDomains?: string[];
+  excludeDomains?: string[];
+}
+
+// What a chat remembers: whether its messages search the web, and how
+export interface ChatWebSearchSettings {
+  enabled: boolean;
+  options: WebSearchOptions;
+}
+
+export const MAX_SEARCH_RESULTS = 10;
+
+function parseContextSize(value: unknown): SearchContextSize | undefined {
+  return SEARCH_CONTEXT_SIZES.find(size => size === value);
+}
+
+function parseMaxResults(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? Number.parseInt(value) : value;
+  return typeof number === 'number' && Number.isInteger(number) && number >= 1 && number <= MAX_SEARCH_RESULTS
+    ? number
+    : undefined;
+}
+
+// Defaults from NEXT_PUBLIC_WEB_SEARCH_MAX_RESULTS and NEXT_PUBLIC_WEB_SEARCH_CONTEXT_SIZE
+export const DEFAULT_WEB_SEARCH_OPTIONS: WebSearchOptions = {
+  maxResults: parseMaxResults(process.env.NEXT_PUBLIC_WEB_SEARCH_MAX_RESULTS) || 5,
+  contextSize: parseContextSize(process.env.NEXT_PUBLIC_WEB_SEARCH_CONTEXT_SIZE),
+};
+
+// Lower-case host names from free text: one per line or comma-separated, with or without a scheme
+export function parseDomainList(text: string): string[] {
+  return text
+    .split(/[\s,]+/)
+    .map(entry => entry.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, ''))
+    .filter((domain, index, all) => domain.length > 0 && all.indexOf(domain) === index);
+}
+
+// Keep only well-formed options; anything else falls back to the defaults
+export function cleanWebSearchOptions(options: unknown): WebSearchOptions {
+  if (!options || typeof options !== 'object') return {};
+
+  const source = options as Record<string, unknown>;
+  const cleaned: WebSearchOptions = {};
+
+  const maxResults = parseMaxResults(source.maxResults);
+  if (maxResults) cleaned.maxResults = maxResults;
+
+  const contextSize = parseContextSize(source.contextSize);
+  if (contextSize) cleaned.contextSize = contextSize;
+
+  if (typeof source.searchPrompt === 'string' && source.searchPrompt.trim()) {
+    cleaned.searchPrompt = source.searchPrompt.trim();
+  }
+
+  (['includeDomains', 'excludeDomains'] as const).forEach(key => {
+    const value = source[key];
+    if (Array.isArray(value)) {
+      const domains = parseDomainList(value.filter(item => typeof item === 'string').join('\n'));
+      if (domains.length > 0) cleaned[key] = domains;
+    }
+  });
+
+  return cleaned;
+}
+
+export function cleanChatWebSearchSettings(settings: unknown): ChatWebSearchSettings | null {
+  if (!settings || typeof settings !== 'object') return null;
+
+  const source = settings as Record<string, unknown>;
+  return { enabled: source.enabled === true, options: cleanWebSearchOptions(source.options) };
+}
+
+// OpenRouter's web plugin, as sent in a request's plugins list
+export interface WebSearchPlugin {
+  id: 'web';
+  max_results?: number;
+  search_prompt?: string;
+  include_domains?: string[];
+  exclude_domains?: string[];
+}
+
+export interface WebSearchRequestFields {
+  plugins?: WebSearchPlugin[];
+  web_search_options?: { search_context_size: SearchContextSize };
+}
+
+// The request fields that switch on OpenRouter's web plugin with these options
+export function buildWebSearchRequest(options: WebSearchOptions): WebSearchRequestFields {
+  const merged = { ...DEFAULT_WEB_SEARCH_OPTIONS, ...options };
+
+  return {
+    plugins: [
+      {
+        id: 'web',
+        max_results: merged.maxResults,
+        ...(merged.searchPrompt ? { search_prompt: merged.searchPrompt } : {}),
+        // Passed to the search engine; engines without domain filtering ignore them
+        ...(merged.includeDomains ? { include_domains: merged.includeDomains } : {}),
+        ...(merged.excludeDomains ? { exclude_domains: merged.excludeDomains } : {}),
+      },
+    ],
+    ...(merged.contextSize ? { web_search_options: { search_context_size: merged.contextSize } } : {}),
+  };
+}
+
+// Short summary for message footers, e.g. "web search · 3 results · high context · prefer example.com"
+export function formatWebSearchOptions(options: WebSearchOptions): string {
+  const merged = { ...DEFAULT_WEB_SEARCH_OPTIONS, ...options };
+  const parts = ['web search', `${merged.maxResults} result${merged.maxResults === 1 ? '' : 's'}`];
+
+  if (merged.contextSize) parts.push(`${merged.contextSize} context`);
+  if (merged.searchPrompt) parts.push('custom prompt');
+  if (merged.includeDomains) parts.push(`prefer ${merged.includeDomains.join(', ')}`);
+  if (merged.excludeDomains) parts.push(`avoid ${merged.excludeDomains.join(', ')}`);
+
+  return parts.join(' · ');
+}
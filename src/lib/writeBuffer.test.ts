@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createWriteBuffer } from './writeBuffer';
+
+function createBuffer(write: (value: string) => Promise<void>) {
+  return createWriteBuffer<string>(write, { intervalMs: 500, maxPendingSize: 10, size: value => value.length });
+}
+
+describe('createWriteBuffer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('writes only the latest of several quick updates', async () => {
+    const write = vi.fn(async () => {});
+    const buffer = createBuffer(write);
+
+    buffer.update('a');
+    buffer.update('ab');
+    buffer.update('abc');
+    expect(write).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(write).toHaveBeenCalledWith('abc');
+  });
+
+  it('writes straight away once the value has grown enough', async () => {
+    const write = vi.fn(async () => {});
+    const buffer = createBuffer(write);
+
+    buffer.update('x'.repeat(10));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(write).toHaveBeenCalledWith('x'.repeat(10));
+
+    // Growth is measured from the last value written
+    buffer.update('x'.repeat(15));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(write).toHaveBeenCalledTimes(1);
+
+    buffer.update('x'.repeat(20));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(write).toHaveBeenCalledTimes(2);
+  });
+
+  it('writes one value at a time, in order', async () => {
+    const written: string[] = [];
+    let finishFirst = () => {};
+    const write = vi.fn((value: string) => {
+      if (value === 'first') {
+        return new Promise<void>(resolve => {
+          finishFirst = () => {
+            written.push(value);
+            resolve();
+          };
+        });
+      }
+      written.push(value);
+      return Promise.resolve();
+    });
+    const buffer = createBuffer(write);
+
+    buffer.update('first');
+    buffer.flush();
+    buffer.update('second');
+    const flushed = buffer.flush();
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(write).toHaveBeenCalledTimes(1);
+
+    finishFirst();
+    await flushed;
+    expect(written).toEqual(['first', 'second']);
+  });
+
+  it('finishes pending writes on close and ignores later updates', async () => {
+    const written: string[] = [];
+    const buffer = createBuffer(async value => {
+      written.push(value);
+    });
+
+    buffer.update('pending');
+    await buffer.close();
+    expect(written).toEqual(['pending']);
+
+    buffer.update('late');
+    await vi.advanceTimersByTimeAsync(500);
+    expect(written).toEqual(['pending']);
+  });
+
+  it('keeps going after a failed write', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const write = vi.fn()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValue(undefined);
+    const buffer = createBuffer(write);
+
+    buffer.update('a');
+    await buffer.flush();
+    buffer.update('b');
+    await buffer.flush();
+
+    expect(write).toHaveBeenLastCalledWith('b');
+    expect(console.error).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,64 @@
+export interface WriteBufferOptions<T> {
+  // Longest a pending value waits before it is written
+  intervalMs: number;
+  // Write straight away once a value has grown this much past the last one written
+  maxPendingSize: number;
+  size: (value: T) => number;
+}
+
+export interface WriteBuffer<T> {
+  // Replace the pending value; only the latest one is ever written
+  update(value: T): void;
+  // Write the pending value now, resolving once every write so far has finished
+  flush(): Promise<void>;
+  // Flush, then ignore further updates
+  close(): Promise<void>;
+}
+
+// Write-behind buffer for a row that changes faster than it should be saved. Updates are
+// coalesced and written one at a time, on a time and size budget; a failed write is logged
+// and the next update tries again.
+export function createWriteBuffer<T>(
+  write: (value: T) => Promise<void>,
+  { intervalMs, maxPendingSize, size }: WriteBufferOptions<T>
+): WriteBuffer<T> {
+  let pending: { value: T } | null = null;
+  let writtenSize = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+  let closed = false;
+
+  const flush = (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!pending) return writing;
+
+    const { value } = pending;
+    pending = null;
+    writtenSize = size(value);
+    writing = writing.then(() => write(value)).catch(error => {
+      console.error('Error writing buffered update:', error);
+    });
+    return writing;
+  };
+
+  return {
+    update(value) {
+      if (closed) return;
+
+      pending = { value };
+      if (size(value) - writtenSize >= maxPendingSize) {
+        flush();
+      } else if (!timer) {
+        timer = setTimeout(flush, intervalMs);
+      }
+    },
+    flush,
+    close() {
+      closed = true;
+      return flush();
+    },
+  };
+}
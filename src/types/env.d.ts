@@ -5,5 +5,14 @@ declare namespace NodeJS {
     NEXT_PUBLIC_SITE_URL?: string;
     NEXT_PUBLIC_WEB_SEARCH_MAX_RESULTS?: string;
     NEXT_PUBLIC_WEB_SEARCH_CONTEXT_SIZE?: string;
+    NEXT_PUBLIC_SUMMARY_MODEL?: string;
+    OPENROUTER_API_URL?: string;
+    API_KEY_ENCRYPTION_KEY?: string;
+    OPENAI_COMPATIBLE_BASE_URL?: string;
+    OPENAI_COMPATIBLE_API_KEY?: string;
+    MOCK_PROVIDER_CHUNK_DELAY_MS?: string;
+    SUPABASE_SERVICE_ROLE_KEY?: string;
+    MODEL_SYNC_SECRET?: string;
+    MODEL_CATALOG_SOURCE?: string;
   }
 }
\ No newline at end of file
@@ -0,0 +1,9 @@
+-- Answers streamed in parallel from several models for the same prompt share a
+-- fan-out group. The selected answer is the one that continues the thread.
+alter table public.chats
+  add column if not exists fanout_group uuid,
+  add column if not exists fanout_selected boolean not null default false;
+
+create index if not exists chats_fanout_group_idx
+  on public.chats (chatid, fanout_group)
+  where fanout_group is not null;
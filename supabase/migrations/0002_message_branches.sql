@@ -0,0 +1,44 @@
+-- Messages form a tree: a retry or an edit adds a sibling under the same parent
+-- instead of overwriting. The chat remembers the leaf of the branch on screen.
+alter table public.chats
+  add column if not exists parent_id uuid references public.chats (messageid) on delete set null;
+
+alter table public.chats_meta
+  add column if not exists active_leaf uuid references public.chats (messageid) on delete set null;
+
+create index if not exists chats_parent_id_idx on public.chats (chatid, parent_id);
+
+-- Existing chats are linear: chain every turn to the turn before it. The
+-- answers of a fan-out group are one turn and later turns hang off the
+-- selected answer (or the first one when none was picked).
+with turns as (
+  select
+    messageid,
+    chatid,
+    created_at,
+    fanout_selected,
+    coalesce(fanout_group::text, messageid::text) as turn_key
+  from public.chats
+),
+turn_order as (
+  select
+    chatid,
+    turn_key,
+    min(created_at) as started_at,
+    (array_agg(messageid order by fanout_selected desc, created_at))[1] as anchor_id
+  from turns
+  group by chatid, turn_key
+),
+chained as (
+  select
+    chatid,
+    turn_key,
+    lag(anchor_id) over (partition by chatid order by started_at) as parent_id
+  from turn_order
+)
+update public.chats c
+set parent_id = chained.parent_id
+from turns
+join chained on chained.chatid = turns.chatid and chained.turn_key = turns.turn_key
+where turns.messageid = c.messageid
+  and c.parent_id is null;
@@ -0,0 +1,7 @@
+-- OpenRouter keys are stored as AES-256-GCM ciphertext, encrypted by the app
+-- server with API_KEY_ENCRYPTION_KEY. The preview lets the UI show which key
+-- is set without decrypting it. Plaintext keys in openrouter_api_key are
+-- encrypted and cleared the first time the server reads them.
+alter table public."user"
+  add column if not exists openrouter_api_key_encrypted text,
+  add column if not exists openrouter_api_key_preview text;
@@ -0,0 +1,7 @@
+-- Each model names the provider that serves it. openai-compatible models send
+-- requests to provider_base_url (for example a local Ollama server at
+-- http://localhost:11434/v1); when it is null OPENAI_COMPATIBLE_BASE_URL is used.
+alter table public.avail_models
+  add column if not exists provider text not null default 'openrouter'
+    check (provider in ('openrouter', 'openai-compatible', 'mock')),
+  add column if not exists provider_base_url text;
@@ -0,0 +1,65 @@
+-- Model prices in USD per token, as OpenRouter lists them
+alter table public.avail_models
+  add column if not exists pricing_prompt numeric,
+  add column if not exists pricing_completion numeric;
+
+-- Token usage and cost of each assistant message
+alter table public.chats
+  add column if not exists prompt_tokens integer,
+  add column if not exists completion_tokens integer,
+  add column if not exists cost numeric;
+
+-- Running totals per chat, kept in step with the messages by a trigger
+alter table public.chats_meta
+  add column if not exists total_tokens bigint not null default 0,
+  add column if not exists total_cost numeric not null default 0;
+
+create or replace function public.track_chat_usage()
+returns trigger
+language plpgsql
+as $$
+declare
+  token_delta bigint := 0;
+  cost_delta numeric := 0;
+begin
+  if tg_op in ('INSERT', 'UPDATE') then
+    token_delta := coalesce(new.prompt_tokens, 0) + coalesce(new.completion_tokens, 0);
+    cost_delta := coalesce(new.cost, 0);
+  end if;
+
+  if tg_op in ('UPDATE', 'DELETE') then
+    token_delta := token_delta - coalesce(old.prompt_tokens, 0) - coalesce(old.completion_tokens, 0);
+    cost_delta := cost_delta - coalesce(old.cost, 0);
+  end if;
+
+  if token_delta <> 0 or cost_delta <> 0 then
+    update public.chats_meta
+    set total_tokens = total_tokens + token_delta,
+        total_cost = total_cost + cost_delta
+    where chatid = coalesce(new.chatid, old.chatid);
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists chats_track_usage on public.chats;
+create trigger chats_track_usage
+  after insert or update of prompt_tokens, completion_tokens, cost or delete on public.chats
+  for each row execute function public.track_chat_usage();
+
+-- Usage of the calling user's messages created since a point in time
+create or replace function public.get_usage_since(since timestamptz)
+returns table (prompt_tokens bigint, completion_tokens bigint, cost numeric)
+language sql
+stable
+as $$
+  select
+    coalesce(sum(c.prompt_tokens), 0)::bigint,
+    coalesce(sum(c.completion_tokens), 0)::bigint,
+    coalesce(sum(c.cost), 0)
+  from public.chats c
+  join public.chats_meta m on m.chatid = c.chatid
+  where m.user_id = auth.uid()
+    and c.created_at >= since;
+$$;
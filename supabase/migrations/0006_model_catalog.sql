@@ -0,0 +1,11 @@
+-- Catalog details synced from the provider's models listing
+alter table public.avail_models
+  add column if not exists description text,
+  add column if not exists context_length integer,
+  add column if not exists tokenizer text,
+  add column if not exists input_modalities text[] not null default '{text}',
+  add column if not exists output_modalities text[] not null default '{text}',
+  add column if not exists synced_at timestamptz;
+
+-- The sync upserts by model id
+create unique index if not exists avail_models_model_id_key on public.avail_models (model_id);
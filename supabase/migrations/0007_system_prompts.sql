@@ -0,0 +1,6 @@
+-- A chat's own system prompt; when null the user's default applies
+alter table public.chats_meta
+  add column if not exists system_prompt text;
+
+alter table public."user"
+  add column if not exists default_system_prompt text;
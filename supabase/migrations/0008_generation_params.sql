@@ -0,0 +1,11 @@
+-- Sampling settings (temperature, top_p, max_tokens, penalties, stop, seed).
+-- A chat's own settings replace the user's defaults; null means none are set.
+alter table public.chats_meta
+  add column if not exists generation_params jsonb;
+
+alter table public."user"
+  add column if not exists default_generation_params jsonb;
+
+-- The settings each assistant message was generated with, for reproducing it
+alter table public.chats
+  add column if not exists generation_params jsonb;
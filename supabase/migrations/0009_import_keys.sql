@@ -0,0 +1,8 @@
+-- Where an imported chat came from, so importing the same export again skips it.
+-- The key is the importer id plus the source conversation id or a content hash.
+alter table public.chats_meta
+  add column if not exists import_key text;
+
+create unique index if not exists chats_meta_user_import_key_idx
+  on public.chats_meta (user_id, import_key)
+  where import_key is not null;
@@ -0,0 +1,86 @@
+-- Full-text search over message bodies and chat titles
+alter table public.chats
+  add column if not exists message_tsv tsvector
+  generated always as (to_tsvector('english', coalesce(message, ''))) stored;
+
+create index if not exists chats_message_tsv_idx on public.chats using gin (message_tsv);
+
+alter table public.chats_meta
+  add column if not exists title_tsv tsvector
+  generated always as (to_tsvector('english', coalesce(title, ''))) stored;
+
+create index if not exists chats_meta_title_tsv_idx on public.chats_meta using gin (title_tsv);
+
+-- Search the calling user's chats. Title matches come back with a null messageid.
+-- Snippets mark matched words with U+E000 ... U+E001 so the client can highlight
+-- them without rendering message text as HTML.
+create or replace function public.search_messages(
+  search_query text,
+  model_filter text default null,
+  role_filter text default null,
+  since timestamptz default null,
+  until timestamptz default null,
+  result_limit integer default 50
+)
+returns table (
+  chatid uuid,
+  messageid uuid,
+  title text,
+  source text,
+  created_at timestamptz,
+  snippet text,
+  rank real
+)
+language sql
+stable
+as $$
+  with q as (
+    select
+      websearch_to_tsquery('english', search_query) as query,
+      'StartSel=' || chr(57344) || ', StopSel=' || chr(57345)
+        || ', MaxFragments=2, MaxWords=20, MinWords=8, FragmentDelimiter=" … "' as options
+  )
+  select * from (
+    select
+      c.chatid,
+      c.messageid,
+      m.title,
+      c.source,
+      c.created_at,
+      ts_headline('english', c.message, q.query, q.options) as snippet,
+      ts_rank(c.message_tsv, q.query) as rank
+    from public.chats c
+    join public.chats_meta m on m.chatid = c.chatid
+    cross join q
+    where m.user_id = auth.uid()
+      and c.message_tsv @@ q.query
+      and (model_filter is null or c.source ilike '%' || model_filter || '%')
+      and (role_filter is null
+        or (role_filter = 'user' and c.source = 'user')
+        or (role_filter = 'assistant' and c.source not in ('user', 'system')))
+      and (since is null or c.created_at >= since)
+      and (until is null or c.created_at < until)
+
+    union all
+
+    select
+      m.chatid,
+      null,
+      m.title,
+      null,
+      m.latest_chat_timestamp,
+      ts_headline('english', m.title, q.query, q.options),
+      ts_rank(m.title_tsv, q.query) * 2
+    from public.chats_meta m
+    cross join q
+    where m.user_id = auth.uid()
+      and m.title_tsv @@ q.query
+      -- Title matches only make sense when no message-level filter is set
+      and model_filter is null
+      and role_filter is null
+      and (since is null or m.latest_chat_timestamp >= since)
+      and (until is null or m.latest_chat_timestamp < until)
+  ) results
+  order by rank desc, created_at desc
+  limit result_limit;
+$$;
@@ -0,0 +1,52 @@
+-- User-defined folders and colored tags for organising chats, plus pinning
+create table if not exists public.chat_folders (
+  folder_id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.chat_tags (
+  tag_id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null,
+  color text not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+create table if not exists public.chat_tag_links (
+  chatid uuid not null references public.chats_meta (chatid) on delete cascade,
+  tag_id uuid not null references public.chat_tags (tag_id) on delete cascade,
+  primary key (chatid, tag_id)
+);
+
+create index if not exists chat_tag_links_tag_id_idx on public.chat_tag_links (tag_id);
+
+alter table public.chats_meta
+  add column if not exists pinned boolean not null default false,
+  add column if not exists folder_id uuid references public.chat_folders (folder_id) on delete set null;
+
+create index if not exists chats_meta_folder_id_idx on public.chats_meta (folder_id);
+
+alter table public.chat_folders enable row level security;
+alter table public.chat_tags enable row level security;
+alter table public.chat_tag_links enable row level security;
+
+drop policy if exists "Users manage their own folders" on public.chat_folders;
+create policy "Users manage their own folders" on public.chat_folders
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+drop policy if exists "Users manage their own tags" on public.chat_tags;
+create policy "Users manage their own tags" on public.chat_tags
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- A chat can only carry the owner's own tags
+drop policy if exists "Users tag their own chats" on public.chat_tag_links;
+create policy "Users tag their own chats" on public.chat_tag_links
+  for all
+  using (exists (select 1 from public.chats_meta m where m.chatid = chat_tag_links.chatid and m.user_id = auth.uid()))
+  with check (
+    exists (select 1 from public.chats_meta m where m.chatid = chat_tag_links.chatid and m.user_id = auth.uid())
+    and exists (select 1 from public.chat_tags t where t.tag_id = chat_tag_links.tag_id and t.user_id = auth.uid())
+  );
@@ -0,0 +1,21 @@
+-- Images attached to user messages. The files live in a private Storage bucket
+-- under "<user_id>/..."; each message row keeps a list of references to them.
+alter table public.chats
+  add column if not exists attachments jsonb;
+
+insert into storage.buckets (id, name, public)
+values ('attachments', 'attachments', false)
+on conflict (id) do nothing;
+
+-- Users can only reach files inside their own folder of the bucket
+drop policy if exists "Users upload their own attachments" on storage.objects;
+create policy "Users upload their own attachments" on storage.objects
+  for insert with check (bucket_id = 'attachments' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users read their own attachments" on storage.objects;
+create policy "Users read their own attachments" on storage.objects
+  for select using (bucket_id = 'attachments' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists "Users delete their own attachments" on storage.objects;
+create policy "Users delete their own attachments" on storage.objects
+  for delete using (bucket_id = 'attachments' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,3 @@
+-- Tools an assistant message called while it was written, with their results, for display
+alter table public.chats
+  add column if not exists tool_calls jsonb;
@@ -0,0 +1,4 @@
+-- Web-search sources of an assistant message, as a list of { number, title, url, text }.
+-- Older answers keep theirs as a "**Citations:**" block at the end of the message text.
+alter table public.chats
+  add column if not exists citations jsonb;
@@ -0,0 +1,6 @@
+-- Per-chat web search switch and options, and the options each searched message used
+alter table public.chats_meta
+  add column if not exists web_search jsonb;
+
+alter table public.chats
+  add column if not exists web_search_options jsonb;
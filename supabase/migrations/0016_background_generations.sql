@@ -0,0 +1,20 @@
+-- Progress of an assistant message written by a server job. The job bumps
+-- generation_updated_at while it runs, so a row left "running" by a job that died
+-- can be told apart from a live one. Older messages have no status.
+alter table public.chats
+  add column if not exists generation_status text
+    check (generation_status in ('running', 'completed', 'failed', 'aborted')),
+  add column if not exists generation_error text,
+  add column if not exists generation_updated_at timestamptz;
+
+-- Browsers follow a running generation through Realtime; RLS still decides which rows they receive
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'chats'
+  ) then
+    alter publication supabase_realtime add table public.chats;
+  end if;
+end;
+$$;
@@ -0,0 +1,105 @@
+-- Message writes as single transactions: the ownership check, the write and the
+-- latest_chat_timestamp bump succeed or fail together. They run as the caller,
+-- so RLS still applies underneath the explicit checks.
+
+-- Add a message to one of the caller's chats and make it the end of the active branch
+create or replace function public.insert_message(
+  target_chat uuid,
+  message_text text,
+  message_source text,
+  parent uuid default null,
+  message_attachments jsonb default null,
+  message_fanout_group uuid default null,
+  message_generation_params jsonb default null,
+  message_web_search_options jsonb default null
+)
+returns uuid
+language plpgsql
+as $$
+declare
+  new_message uuid;
+begin
+  perform 1 from public.chats_meta
+  where chatid = target_chat and user_id = auth.uid();
+  if not found then
+    raise exception 'Chat not found or user does not have access' using errcode = '42501';
+  end if;
+
+  insert into public.chats (
+    chatid, message, source, parent_id, attachments, fanout_group, generation_params, web_search_options
+  )
+  values (
+    target_chat, message_text, message_source, parent, message_attachments,
+    message_fanout_group, message_generation_params, message_web_search_options
+  )
+  returning messageid into new_message;
+
+  update public.chats_meta
+  set latest_chat_timestamp = now(), active_leaf = new_message
+  where chatid = target_chat;
+
+  return new_message;
+end;
+$$;
+
+-- Replace a message's text; usage, tool calls and citations are only written when given.
+-- Returns false when the message isn't in one of the caller's chats.
+create or replace function public.update_message(
+  target_message uuid,
+  message_text text,
+  new_prompt_tokens integer default null,
+  new_completion_tokens integer default null,
+  new_cost numeric default null,
+  new_tool_calls jsonb default null,
+  new_citations jsonb default null
+)
+returns boolean
+language plpgsql
+as $$
+declare
+  target_chat uuid;
+begin
+  select c.chatid into target_chat
+  from public.chats c
+  join public.chats_meta m on m.chatid = c.chatid
+  where c.messageid = target_message and m.user_id = auth.uid();
+  if target_chat is null then
+    return false;
+  end if;
+
+  update public.chats
+  set message = message_text,
+      prompt_tokens = coalesce(new_prompt_tokens, prompt_tokens),
+      completion_tokens = coalesce(new_completion_tokens, completion_tokens),
+      cost = coalesce(new_cost, cost),
+      tool_calls = coalesce(new_tool_calls, tool_calls),
+      citations = coalesce(new_citations, citations)
+  where messageid = target_message;
+
+  update public.chats_meta
+  set latest_chat_timestamp = now()
+  where chatid = target_chat;
+
+  return true;
+end;
+$$;
+
+-- Delete one of the caller's chats with all its messages.
+-- Returns false when there is no such chat.
+create or replace function public.delete_chat(target_chat uuid)
+returns boolean
+language plpgsql
+as $$
+begin
+  perform 1 from public.chats_meta
+  where chatid = target_chat and user_id = auth.uid();
+  if not found then
+    return false;
+  end if;
+
+  delete from public.chats where chatid = target_chat;
+  delete from public.chats_meta where chatid = target_chat;
+
+  return true;
+end;
+$$;
@@ -0,0 +1,12 @@
+-- Tabs and devices keep the chat list in step through Realtime; chats joined the
+-- publication for background generations. RLS still decides which rows they receive.
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'chats_meta'
+  ) then
+    alter publication supabase_realtime add table public.chats_meta;
+  end if;
+end;
+$$;
@@ -0,0 +1,20 @@
+-- Keys saved before encryption stayed in plaintext until their first use, readable
+-- through the user's own row. Run `node scripts/encrypt-api-keys.mjs` first to encrypt
+-- and clear all of them; after this migration signed-in users can read every column of
+-- their row except the key columns, which only the server reads, with the service role.
+-- Columns added to "user" later need their own grant.
+do $$
+declare
+  readable_columns text;
+begin
+  select string_agg(quote_ident(column_name), ', ' order by ordinal_position)
+  into readable_columns
+  from information_schema.columns
+  where table_schema = 'public'
+    and table_name = 'user'
+    and column_name not in ('openrouter_api_key', 'openrouter_api_key_encrypted');
+
+  revoke select on table public."user" from anon, authenticated;
+  execute format('grant select (%s) on table public."user" to authenticated', readable_columns);
+end;
+$$;
@@ -0,0 +1,48 @@
+-- How the conversation was trimmed before an answer was requested, so the chat
+-- can still say so after a reload: { strategy, droppedMessages, summarized }
+alter table public.chats
+  add column if not exists context_trim jsonb;
+
+-- insert_message gains the trim; drop the old signature so calls don't become ambiguous
+drop function if exists public.insert_message(uuid, text, text, uuid, jsonb, uuid, jsonb, jsonb);
+
+create or replace function public.insert_message(
+  target_chat uuid,
+  message_text text,
+  message_source text,
+  parent uuid default null,
+  message_attachments jsonb default null,
+  message_fanout_group uuid default null,
+  message_generation_params jsonb default null,
+  message_web_search_options jsonb default null,
+  message_context_trim jsonb default null
+)
+returns uuid
+language plpgsql
+as $$
+declare
+  new_message uuid;
+begin
+  perform 1 from public.chats_meta
+  where chatid = target_chat and user_id = auth.uid();
+  if not found then
+    raise exception 'Chat not found or user does not have access' using errcode = '42501';
+  end if;
+
+  insert into public.chats (
+    chatid, message, source, parent_id, attachments, fanout_group, generation_params,
+    web_search_options, context_trim
+  )
+  values (
+    target_chat, message_text, message_source, parent, message_attachments,
+    message_fanout_group, message_generation_params, message_web_search_options, message_context_trim
+  )
+  returning messageid into new_message;
+
+  update public.chats_meta
+  set latest_chat_timestamp = now(), active_leaf = new_message
+  where chatid = target_chat;
+
+  return new_message;
+end;
+$$;
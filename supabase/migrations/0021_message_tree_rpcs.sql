@@ -0,0 +1,59 @@
+-- Message tree edits as single transactions, like the writes in 0017_message_rpcs.sql:
+-- a failure partway can no longer leave orphaned replies or two selected answers.
+
+-- Delete one of the caller's messages, handing its replies to its parent so later turns
+-- stay in the thread. Returns false when the message isn't in one of the caller's chats.
+create or replace function public.delete_message(target_message uuid)
+returns boolean
+language plpgsql
+as $$
+declare
+  target_parent uuid;
+begin
+  select c.parent_id into target_parent
+  from public.chats c
+  join public.chats_meta m on m.chatid = c.chatid
+  where c.messageid = target_message and m.user_id = auth.uid();
+  if not found then
+    return false;
+  end if;
+
+  update public.chats
+  set parent_id = target_parent
+  where parent_id = target_message;
+
+  delete from public.chats where messageid = target_message;
+
+  return true;
+end;
+$$;
+
+-- Mark one answer of a fan-out group as the one that continues the thread, and clear
+-- the others. Returns false when the answer isn't in that group of one of the caller's chats.
+create or replace function public.select_fanout_message(
+  target_chat uuid,
+  target_group uuid,
+  target_message uuid
+)
+returns boolean
+language plpgsql
+as $$
+begin
+  perform 1
+  from public.chats c
+  join public.chats_meta m on m.chatid = c.chatid
+  where c.messageid = target_message
+    and c.chatid = target_chat
+    and c.fanout_group = target_group
+    and m.user_id = auth.uid();
+  if not found then
+    return false;
+  end if;
+
+  update public.chats
+  set fanout_selected = (messageid = target_message)
+  where chatid = target_chat and fanout_group = target_group;
+
+  return true;
+end;
+$$;
@@ -0,0 +1,13 @@
+-- Tags added to or taken off a chat reach the user's other tabs and devices through
+-- Realtime too. RLS still decides which inserts they receive; deletes carry only the
+-- chat and tag IDs, and clients ignore those of chats they don't have.
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'chat_tag_links'
+  ) then
+    alter publication supabase_realtime add table public.chat_tag_links;
+  end if;
+end;
+$$;